@@ -0,0 +1,121 @@
+// Stand-in for the market analysis endpoints so the results page panel can be
+// tried without the backend or a Yellowcake key. Jobs finish after a few polls.
+//
+//   npm run mock:market
+//   NEXT_PUBLIC_API_URL=http://localhost:8010 npm run dev
+//
+// Saved analyses open from local history, so the results page works against
+// this server alone. Use "fail" as the company name to exercise the error path.
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.PORT) || 8010;
+const JOB_DURATION_MS = 6000;
+
+const STEPS = [
+  "Summarizing the pitch",
+  "Scanning competitors",
+  "Drafting positioning",
+  "Writing the email",
+];
+
+const jobs = new Map();
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, X-Session-Id",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+async function readJson(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+function buildResult({ companyName, website, industryHint }) {
+  const industry = industryHint || "your market";
+  return {
+    summary: `${companyName} competes in ${industry} against a few well-funded incumbents and a long tail of point solutions.${website ? ` Positioning was checked against ${website}.` : ""}`,
+    competitors: [
+      {
+        name: "Northwind Analytics",
+        whyRelevant: `Sells an all-in-one suite to the same buyers in ${industry}.`,
+        evidence: "Raised a Series B last year; pricing page targets mid-market teams.",
+      },
+      {
+        name: "Contoso Labs",
+        whyRelevant: "Open-source alternative that technical teams try first.",
+        evidence: "Active GitHub community; enterprise tier launched recently.",
+      },
+      {
+        name: "Fabrikam",
+        whyRelevant: "Incumbent with existing contracts at large customers.",
+        evidence: "Case studies focus on Fortune 500 deployments.",
+      },
+    ],
+    positioningSuggestions: [
+      `Lead with the time-to-value gap: ${companyName} is usable in a day, suites take a quarter.`,
+      "Name the incumbent's switching cost and show how you remove it.",
+      "Quote one customer metric in the first two slides.",
+    ],
+    pitchEmailTemplate: `Subject: ${companyName} - quick intro\n\nHi {{name}},\n\n${companyName} helps teams in ${industry} get results in days instead of months. We're already working with {{customer}} and seeing {{metric}}.\n\nWould you have 20 minutes next week to see a short demo?\n\nBest,\n{{sender}}`,
+  };
+}
+
+function jobStatus(job) {
+  const elapsed = Date.now() - job.startedAt;
+  const base = { marketJobId: job.id, errorMessage: null, market: null };
+  if (job.params.companyName.trim().toLowerCase() === "fail" && elapsed > JOB_DURATION_MS / 2) {
+    return { ...base, status: "error", progress: 50, step: null, errorMessage: "Mock market analysis failed" };
+  }
+  if (elapsed >= JOB_DURATION_MS) {
+    return { ...base, status: "done", progress: 100, step: null, market: buildResult(job.params) };
+  }
+  const progress = Math.floor((elapsed / JOB_DURATION_MS) * 100);
+  const step = STEPS[Math.min(STEPS.length - 1, Math.floor((progress / 100) * STEPS.length))];
+  return { ...base, status: elapsed < 1000 ? "queued" : "processing", progress, step };
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const [, version, resource, id] = url.pathname.split("/");
+
+  if (req.method === "OPTIONS") return sendJson(res, 204);
+  if (url.pathname === "/") return sendJson(res, 200, { status: "ok" });
+  if (version !== "v1" || resource !== "market" || !id) {
+    return sendJson(res, 404, { detail: "Not found" });
+  }
+
+  if (req.method === "POST") {
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return sendJson(res, 400, { detail: "Invalid JSON body" });
+    }
+    if (typeof body.companyName !== "string" || !body.companyName.trim()) {
+      return sendJson(res, 422, { detail: "companyName is required" });
+    }
+    const job = { id: randomUUID(), jobId: id, params: body, startedAt: Date.now() };
+    jobs.set(job.id, job);
+    return sendJson(res, 200, { marketJobId: job.id, status: "queued" });
+  }
+
+  if (req.method === "GET") {
+    const job = jobs.get(id);
+    if (!job) return sendJson(res, 404, { detail: "Market job not found" });
+    return sendJson(res, 200, jobStatus(job));
+  }
+
+  sendJson(res, 405, { detail: "Method not allowed" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock market server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,132 @@
+"use client";
+
+import { Suspense, useState, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Navbar } from "@/app/components/Navbar";
+import { InteractiveBackground } from "@/app/components/InteractiveBackground";
+import { SessionComparison, type ComparisonAttempt } from "@/app/components/SessionComparison";
+import { SessionTransfer } from "@/app/components/SessionTransfer";
+import { useTheme } from "@/app/components/ThemeContext";
+import { getAnalysis, type AnalysisRecord } from "@/app/services/history";
+import type { AudioAnalysisResponse } from "@/app/services/api";
+
+type SpeechRecord = AnalysisRecord & { audioResult: AudioAnalysisResponse };
+
+const isSpeechRecord = (record: AnalysisRecord | null): record is SpeechRecord =>
+  record !== null && record.audioResult !== null;
+
+const formatAttemptDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+function ComparisonContent() {
+  const searchParams = useSearchParams();
+  const idsParam = searchParams.get("ids") ?? "";
+
+  const [records, setRecords] = useState<SpeechRecord[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = idsParam.split(",").filter(Boolean);
+    Promise.all(ids.map((id) => getAnalysis(id)))
+      .then((loaded) => {
+        if (cancelled) return;
+        setRecords(
+          loaded
+            .filter(isSpeechRecord)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+        );
+      })
+      .catch((error) => {
+        console.error("Failed to load analyses for comparison:", error);
+        if (!cancelled) setLoadError("Couldn't load the selected analyses.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [idsParam]);
+
+  if (loadError) {
+    return (
+      <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+        <p className="text-red-400 text-sm">{loadError}</p>
+      </div>
+    );
+  }
+
+  if (!records) {
+    return <p className="text-[var(--text-primary)]/60">Loading analyses...</p>;
+  }
+
+  const attempts: ComparisonAttempt[] = records.map((record, i) => ({
+    id: record.id,
+    label: `#${i + 1} · ${formatAttemptDate(record.createdAt)}`,
+    result: record.audioResult,
+  }));
+
+  const titles = [...new Set(records.map((record) => record.title || "Untitled pitch"))];
+
+  return (
+    <section className="space-y-6 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-[var(--text-primary)] mb-2">Progress Comparison</h1>
+          <p className="text-[var(--text-secondary)]">{titles.join(", ")}</p>
+        </div>
+        <Link
+          href="/history"
+          className="px-4 py-2 rounded-xl bg-[var(--text-primary)]/10 text-[var(--text-primary)] hover:bg-[var(--accent-blue-subtle)] hover:text-[var(--accent-blue)] transition-all duration-200 text-sm font-medium"
+        >
+          Back to History
+        </Link>
+      </div>
+      <SessionComparison attempts={attempts} />
+    </section>
+  );
+}
+
+export default function Compare() {
+  const router = useRouter();
+  const { isDark, toggleTheme } = useTheme();
+
+  return (
+    <div className="min-h-screen bg-[var(--bg-primary)] transition-colors duration-300 relative overflow-hidden">
+      {/* Interactive Background */}
+      <InteractiveBackground />
+
+      {/* Content Layer */}
+      <div className="relative z-10 pt-24">
+        <Navbar
+          brandName="Pitch Perfect"
+          navItems={[
+            { label: "Home", onClick: () => router.push("/") },
+            { label: "Learn More", onClick: () => router.push("/learn-more") },
+            { label: "History", onClick: () => router.push("/history") },
+            { label: "Analyze", onClick: () => router.push("/#analyze") },
+          ]}
+          onThemeToggle={toggleTheme}
+          isDarkMode={isDark}
+        />
+
+        <main className="max-w-4xl mx-auto px-6 py-12">
+          {/* useSearchParams needs a Suspense boundary */}
+          <Suspense fallback={<p className="text-[var(--text-primary)]/60">Loading analyses...</p>}>
+            <ComparisonContent />
+          </Suspense>
+        </main>
+
+        <footer className="border-t border-[var(--border-primary)] mt-auto">
+          <div className="max-w-4xl mx-auto px-6 py-6">
+            <p className="text-center text-sm text-[var(--text-muted)]">
+              Pitch Perfect - AI-powered presentation coaching
+            </p>
+            <div className="mt-3">
+              <SessionTransfer />
+            </div>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+}
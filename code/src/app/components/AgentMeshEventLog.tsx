@@ -0,0 +1,106 @@
+"use client";
+
+import { usePipelineEvents } from "@/app/hooks/usePipelineEvents";
+import type { PipelineEvent, PipelineStage } from "@/app/services/api";
+
+interface AgentMeshEventLogProps {
+  jobId: string | null;
+}
+
+type StepState = "running" | "done" | "failed";
+
+interface PipelineStep {
+  stage: PipelineStage;
+  state: StepState;
+  durationMs: number | null;
+}
+
+const STAGES: { stage: PipelineStage; label: string }[] = [
+  { stage: "speech.transcription", label: "Transcription" },
+  { stage: "deck.render", label: "Slide rendering" },
+  { stage: "gemini.deck", label: "Deck critique" },
+  { stage: "gemini.coach", label: "Coaching synthesis" },
+  { stage: "voice.tts", label: "Voice feedback" },
+];
+
+const STAGE_LABELS = Object.fromEntries(STAGES.map(({ stage, label }) => [stage, label])) as Record<PipelineStage, string>;
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+const eventMessage = (event: PipelineEvent): string | null => {
+  const message = event.payload?.message ?? event.payload?.errorMessage;
+  return typeof message === "string" ? message : null;
+};
+
+// Stages in pipeline order, skipping those the job never started (a speech
+// job has no deck stages). A job error fails whichever stages were still running.
+function summarizeSteps(events: PipelineEvent[]): PipelineStep[] {
+  const failed = events.some((event) => event.type === "job.error");
+  const steps: PipelineStep[] = [];
+  for (const { stage } of STAGES) {
+    const started = events.find((event) => event.type === `${stage}.started`);
+    if (!started) continue;
+    const done = events.find((event) => event.type === `${stage}.done`);
+    steps.push({
+      stage,
+      state: done ? "done" : failed ? "failed" : "running",
+      durationMs: done ? Date.parse(done.ts) - Date.parse(started.ts) : null,
+    });
+  }
+  return steps;
+}
+
+// Live view of the worker pipeline in agent mesh mode. Jobs that don't emit
+// events render nothing, leaving the plain progress bar.
+export function AgentMeshEventLog({ jobId }: AgentMeshEventLogProps) {
+  const { events, error } = usePipelineEvents(jobId);
+  if (events.length === 0) return null;
+
+  const steps = summarizeSteps(events);
+  const startTime = Date.parse(events[0].ts);
+
+  return (
+    <div className="mt-8 text-left space-y-4">
+      {steps.length > 0 && (
+        <ol className="space-y-2">
+          {steps.map((step) => (
+            <li key={step.stage} className="flex items-center gap-3 text-sm">
+              {step.state === "done" ? (
+                <span className="w-5 h-5 rounded-full bg-[var(--success-subtle)] text-[var(--success)] flex items-center justify-center">
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                  </svg>
+                </span>
+              ) : step.state === "failed" ? (
+                <span className="w-5 h-5 rounded-full bg-[var(--error-subtle)] text-[var(--error)] flex items-center justify-center">
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </span>
+              ) : (
+                <span className="w-5 h-5 rounded-full border-2 border-[var(--accent-blue)] border-t-transparent animate-spin" />
+              )}
+              <span className={step.state === "running" ? "text-[var(--text-primary)]" : "text-[var(--text-secondary)]"}>
+                {STAGE_LABELS[step.stage]}
+              </span>
+              <span className="ml-auto text-xs font-mono text-[var(--text-tertiary)]">
+                {step.durationMs !== null ? formatSeconds(step.durationMs) : step.state === "failed" ? "failed" : "running"}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="max-h-48 overflow-y-auto rounded-sm bg-[var(--bg-tertiary)] border border-[var(--border-primary)] p-3 font-mono text-xs space-y-1">
+        {events.map((event) => (
+          <div key={event.id} className="flex gap-3">
+            <span className="text-[var(--text-tertiary)] shrink-0">+{formatSeconds(Date.parse(event.ts) - startTime)}</span>
+            <span className={event.type === "job.error" ? "text-[var(--error)]" : "text-[var(--text-primary)]"}>{event.type}</span>
+            {eventMessage(event) && <span className="text-[var(--text-tertiary)] truncate">{eventMessage(event)}</span>}
+          </div>
+        ))}
+        {error && <div className="text-[var(--text-tertiary)]">Live updates stopped: {error}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import type { AnalysisPart } from "@/app/components/AnalysisRecoveryPanel";
+import type { ApiError } from "@/app/services/api";
+
+export type AnalysisPartStatusType = "idle" | "running" | "done" | "error";
+
+export interface AnalysisPartState {
+  status: AnalysisPartStatusType;
+  progress: number; // 0-100
+  step: string | null;
+  error: ApiError | null;
+  jobId: string | null;
+}
+
+export const IDLE_PART: AnalysisPartState = { status: "idle", progress: 0, step: null, error: null, jobId: null };
+
+interface AnalysisPartStatusProps {
+  part: AnalysisPart;
+  state: AnalysisPartState;
+}
+
+const PART_LABELS: Record<AnalysisPart, string> = {
+  speech: "Speech analysis",
+  deck: "Slide deck analysis",
+};
+
+// Stands in for one half of a combined analysis on the results page while it
+// is still running, so the finished half can be read meanwhile.
+export function AnalysisPartStatus({ part, state }: AnalysisPartStatusProps) {
+  if (state.status === "running") {
+    return (
+      <div className="bg-[var(--bg-secondary)] rounded border border-[var(--border-primary)] p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <span className="w-5 h-5 rounded-full border-2 border-[var(--accent-blue)] border-t-transparent animate-spin" />
+          <p className="text-[var(--text-primary)] font-medium">{PART_LABELS[part]} in progress</p>
+          <span className="ml-auto text-sm font-mono text-[var(--text-tertiary)]">{Math.round(state.progress)}%</span>
+        </div>
+        <div className="h-1 bg-[var(--accent-blue)]/20 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-[var(--accent-blue)] transition-all duration-300 ease-out"
+            style={{ width: `${Math.min(state.progress, 100)}%` }}
+          />
+        </div>
+        {state.step && <p className="mt-2 text-sm text-[var(--text-tertiary)]">{state.step}</p>}
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { ErrorDetails, ErrorIcon } from "@/app/components/ErrorDetails";
+import { UPLOAD_LIMITS_MB, type ApiError, type ApiErrorCode } from "@/app/services/api";
+
+export type AnalysisPart = "speech" | "deck";
+
+export type RecoveryAction = "retry" | "retry_failed" | "reencode" | "trim" | "choose_file";
+
+export interface AnalysisFailure {
+  error: ApiError;
+  part: AnalysisPart;
+  otherPartDone: boolean; // the other half of a combined analysis already succeeded
+}
+
+interface AnalysisRecoveryPanelProps {
+  failure: AnalysisFailure;
+  canConvert: boolean; // a speech recording is available to re-encode or trim
+  trimToSec: number;
+  onAction: (action: RecoveryAction) => Promise<void> | void;
+}
+
+const TITLES: Record<ApiErrorCode, (part: AnalysisPart) => string> = {
+  validation: () => "The server couldn't accept this analysis",
+  too_large: (part) => (part === "speech" ? "The recording is too large" : "The slide deck is too large"),
+  unsupported_type: (part) => (part === "speech" ? "This recording format isn't supported" : "This deck format isn't supported"),
+  timeout: () => "The analysis timed out",
+  server: () => "Something went wrong on our side",
+  offline: () => "Couldn't reach the server",
+};
+
+const HINTS: Record<ApiErrorCode, string> = {
+  validation: "Check the file and details, then try again.",
+  too_large: `Audio uploads are limited to ${UPLOAD_LIMITS_MB.audio} MB, videos to ${UPLOAD_LIMITS_MB.video} MB and decks to ${UPLOAD_LIMITS_MB.deck} MB.`,
+  unsupported_type: "Converting the recording to plain audio usually fixes this.",
+  timeout: "Long recordings can take too long to process. A shorter one will go faster.",
+  server: "This is usually temporary. Your files are still uploaded, so trying again is quick.",
+  offline: "Check your connection, then try again.",
+};
+
+const formatDuration = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+
+// Most useful action first
+function actionsFor({ error, part, otherPartDone }: AnalysisFailure, canConvert: boolean): RecoveryAction[] {
+  const convertible = part === "speech" && canConvert;
+  switch (error.code) {
+    case "too_large":
+      return convertible ? ["reencode", "trim", "choose_file"] : ["choose_file"];
+    case "unsupported_type":
+      return convertible ? ["reencode", "choose_file"] : ["choose_file"];
+    case "validation":
+      return ["choose_file", "retry"];
+    case "timeout":
+      if (convertible) return otherPartDone ? ["trim", "retry_failed"] : ["trim", "retry"];
+      return otherPartDone ? ["retry_failed", "retry"] : ["retry"];
+    default:
+      return otherPartDone ? ["retry_failed", "retry"] : ["retry"];
+  }
+}
+
+export function AnalysisRecoveryPanel({ failure, canConvert, trimToSec, onAction }: AnalysisRecoveryPanelProps) {
+  const [pendingAction, setPendingAction] = useState<RecoveryAction | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const { error, part, otherPartDone } = failure;
+
+  const labels: Record<RecoveryAction, string> = {
+    retry: otherPartDone ? "Retry both" : "Try again",
+    retry_failed: part === "speech" ? "Retry speech analysis" : "Retry deck analysis",
+    reencode: "Convert to compact audio",
+    trim: `Trim to ${formatDuration(trimToSec)}`,
+    choose_file: part === "speech" ? "Choose another recording" : "Choose another deck",
+  };
+
+  const handleAction = async (action: RecoveryAction) => {
+    setPendingAction(action);
+    setActionError(null);
+    try {
+      await onAction(action);
+    } catch (err) {
+      console.error("Recovery action failed:", err);
+      setActionError(err instanceof Error ? err.message : "That didn't work. Please try another option.");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20 space-y-3">
+      <div className="flex items-start gap-3">
+        <ErrorIcon className="mt-0.5" />
+        <div className="flex-1 space-y-1">
+          <p className="text-red-400 text-sm font-medium">{TITLES[error.code](part)}</p>
+          <p className="text-sm text-[var(--text-primary)]/60">{error.message}</p>
+          <p className="text-sm text-[var(--text-primary)]/60">
+            {otherPartDone && `The ${part === "speech" ? "slide deck" : "speech"} analysis finished and is kept. `}
+            {HINTS[error.code]}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 pl-8">
+        {actionsFor(failure, canConvert).map((action, index) => (
+          <button
+            key={action}
+            onClick={() => handleAction(action)}
+            disabled={pendingAction !== null}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-200 disabled:opacity-50 ${
+              index === 0
+                ? "bg-[var(--accent-primary)] text-[var(--bg-primary)] hover:bg-[var(--accent-primary-hover)]"
+                : "bg-[var(--text-primary)]/10 text-[var(--text-primary)] hover:bg-[var(--accent-blue-subtle)] hover:text-[var(--accent-blue)]"
+            }`}
+          >
+            {pendingAction === action ? "Working..." : labels[action]}
+          </button>
+        ))}
+      </div>
+
+      {actionError && <p className="pl-8 text-sm text-red-400">{actionError}</p>}
+      <ErrorDetails error={error} className="pl-8" />
+    </div>
+  );
+}
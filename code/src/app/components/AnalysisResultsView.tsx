@@ -0,0 +1,286 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { createPortal } from "react-dom";
+import { SpeechAnalysisResults, type TabType } from "@/app/components/SpeechAnalysisResults";
+import { PDFAnalysisResults } from "@/app/components/PDFAnalysisResults";
+import { KaraokePlayback } from "@/app/components/KaraokePlayback";
+import { VideoPlayback } from "@/app/components/VideoPlayback";
+import { SlideSpeechTimeline } from "@/app/components/SlideSpeechTimeline";
+import { PlaybackProvider } from "@/app/components/PlaybackContext";
+import { CoachingReport } from "@/app/components/CoachingReport";
+import { MarketAnalysisPanel } from "@/app/components/MarketAnalysisPanel";
+import { AnalysisPartStatus, type AnalysisPartState } from "@/app/components/AnalysisPartStatus";
+import { AnalysisRecoveryPanel, type AnalysisPart, type RecoveryAction } from "@/app/components/AnalysisRecoveryPanel";
+import { updateAnalysis } from "@/app/services/history";
+import { detectCoachingEvents } from "@/app/services/coachingEvents";
+import { useFillerDictionary } from "@/app/hooks/useFillerDictionary";
+import type { AudioAnalysisResponse, MarketAnalysisResult, PDFAnalysisResponse, PitchContext } from "@/app/services/api";
+
+interface PartRecovery {
+  canConvert: boolean; // a speech recording is available to re-encode or trim
+  trimToSec: number;
+  onAction: (action: RecoveryAction, part: AnalysisPart) => Promise<void> | void;
+}
+
+interface AnalysisResultsViewProps {
+  audioResult: AudioAnalysisResponse | null;
+  pdfResult: PDFAnalysisResponse | null;
+  mediaUrl: string | null;
+  mediaType?: "audio" | "video" | null;
+  deckFile?: Blob | null;
+  context?: PitchContext | null;
+  createdAt?: string | null;
+  jobId?: string | null; // analysis job id, which is also the history record id
+  market?: MarketAnalysisResult | null;
+  speechState?: AnalysisPartState; // progress or failure of a half still missing from the results
+  deckState?: AnalysisPartState;
+  partRecovery?: PartRecovery; // offers recovery actions for a failed half
+  onReset: () => void;
+  heading?: string;
+  subheading?: string;
+  resetLabel?: string;
+  shareUrl?: string | null;
+  speechTab?: TabType;
+  onSpeechTabChange?: (tab: TabType) => void;
+}
+
+export function AnalysisResultsView({
+  audioResult,
+  pdfResult,
+  mediaUrl,
+  mediaType = "audio",
+  deckFile,
+  context,
+  createdAt,
+  jobId,
+  market,
+  speechState,
+  deckState,
+  partRecovery,
+  onReset,
+  heading = "Analysis Results",
+  subheading,
+  resetLabel = "New Analysis",
+  shareUrl,
+  speechTab,
+  onSpeechTabChange,
+}: AnalysisResultsViewProps) {
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const reportTitle = context?.title || heading;
+  // One dictionary and one set of events for the player markers, the timeline
+  // panel and the exported report
+  const { customFillers, fillerDictionary, updateCustomFillers } = useFillerDictionary(audioResult?.language);
+  const coachingEvents = useMemo(
+    () => (audioResult ? detectCoachingEvents(audioResult, fillerDictionary) : []),
+    [audioResult, fillerDictionary],
+  );
+
+  // The report is mounted for the print dialog and removed once it closes. The
+  // document title becomes the suggested file name when saving as PDF.
+  useEffect(() => {
+    if (!isExporting) return;
+    const previousTitle = document.title;
+    document.title = `${reportTitle} - Coaching Report`;
+    const handleAfterPrint = () => setIsExporting(false);
+    window.addEventListener("afterprint", handleAfterPrint);
+    // Give the charts a moment to lay out before the print snapshot
+    const timer = setTimeout(() => window.print(), 300);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("afterprint", handleAfterPrint);
+      document.title = previousTitle;
+    };
+  }, [isExporting, reportTitle]);
+
+  // A failed half sits next to the finished one, so its recovery can retry just that half
+  const renderPartState = (part: AnalysisPart, state: AnalysisPartState) =>
+    state.status === "error" && state.error && partRecovery ? (
+      <AnalysisRecoveryPanel
+        failure={{ error: state.error, part, otherPartDone: true }}
+        canConvert={partRecovery.canConvert}
+        trimToSec={partRecovery.trimToSec}
+        onAction={(action) => partRecovery.onAction(action, part)}
+      />
+    ) : (
+      <AnalysisPartStatus part={part} state={state} />
+    );
+
+  const handleCopyLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(new URL(shareUrl, window.location.origin).toString());
+      setShareMessage("Link copied");
+    } catch {
+      setShareMessage("Couldn't access the clipboard");
+    }
+  };
+
+  return (
+    <PlaybackProvider>
+      <section className="space-y-8 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-semibold text-[var(--text-primary)]">{heading}</h3>
+            <p className="text-sm text-[var(--text-tertiary)]">
+              {subheading ?? (audioResult && pdfResult ? "Speech and slide deck analysis complete" : audioResult ? "Speech analysis complete" : "Slide deck analysis complete")}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsExporting(true)}
+              disabled={isExporting}
+              title="Save a printable PDF to share with mentors"
+              className="px-4 py-2 rounded-xl bg-[var(--text-primary)]/10 text-[var(--text-primary)] hover:bg-[var(--accent-blue-subtle)] hover:text-[var(--accent-blue)] transition-all duration-200 active:scale-[0.98] text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              Download Report
+            </button>
+            {shareUrl && (
+              <button
+                onClick={handleCopyLink}
+                title={shareMessage ?? "Copy a link to these results"}
+                className="px-4 py-2 rounded-xl bg-[var(--text-primary)]/10 text-[var(--text-primary)] hover:bg-[var(--accent-blue-subtle)] hover:text-[var(--accent-blue)] transition-all duration-200 active:scale-[0.98] text-sm font-medium flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                </svg>
+                {shareMessage ?? "Copy Link"}
+              </button>
+            )}
+            <button
+              onClick={onReset}
+              className="px-4 py-2 rounded-xl bg-[var(--text-primary)]/10 text-[var(--text-primary)] hover:bg-[var(--accent-blue-subtle)] hover:text-[var(--accent-blue)] transition-all duration-200 active:scale-[0.98] text-sm font-medium flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              {resetLabel}
+            </button>
+          </div>
+        </div>
+
+        {audioResult && (
+          <div>
+            {pdfResult && (
+              <div className="flex items-center gap-2 mb-4">
+                <div className="w-6 h-6 rounded-full bg-[var(--text-primary)]/10 flex items-center justify-center">
+                  <svg className="w-3.5 h-3.5 text-[var(--text-primary)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                  </svg>
+                </div>
+                <h4 className="text-lg font-medium text-[var(--text-primary)]">Speech Analysis</h4>
+              </div>
+            )}
+
+            {mediaUrl && mediaType === "video" && (
+              <div className="mb-6">
+                <VideoPlayback
+                  videoUrl={mediaUrl}
+                  wordAnalysis={audioResult.word_analysis}
+                  timestamps={audioResult.timestamps}
+                  events={coachingEvents}
+                />
+              </div>
+            )}
+
+            {mediaUrl && mediaType !== "video" && audioResult.word_analysis.length > 0 && (
+              <div className="mb-6">
+                <KaraokePlayback
+                  audioUrl={mediaUrl}
+                  wordAnalysis={audioResult.word_analysis}
+                  transcription={audioResult.transcription}
+                  timestamps={audioResult.timestamps}
+                />
+              </div>
+            )}
+
+            <SpeechAnalysisResults
+              data={audioResult}
+              onReset={onReset}
+              activeTab={speechTab}
+              onTabChange={onSpeechTabChange}
+              context={context}
+              fillerDictionary={fillerDictionary}
+              customFillers={customFillers}
+              onCustomFillersChange={updateCustomFillers}
+              coachingEvents={coachingEvents}
+            />
+          </div>
+        )}
+
+        {!audioResult && speechState && renderPartState("speech", speechState)}
+
+        {!pdfResult && deckState && renderPartState("deck", deckState)}
+
+        {audioResult && pdfResult && (
+          <div>
+            <div className="flex items-center gap-2 mb-4 mt-8">
+              <div className="w-6 h-6 rounded-full bg-[var(--text-primary)]/10 flex items-center justify-center">
+                <svg className="w-3.5 h-3.5 text-[var(--text-primary)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </div>
+              <h4 className="text-lg font-medium text-[var(--text-primary)]">Slides &amp; Speech</h4>
+            </div>
+            <SlideSpeechTimeline audioResult={audioResult} pdfResult={pdfResult} />
+          </div>
+        )}
+
+        {pdfResult && (
+          <div>
+            {audioResult && (
+              <div className="flex items-center gap-2 mb-4 mt-8">
+                <div className="w-6 h-6 rounded-full bg-[var(--text-primary)]/10 flex items-center justify-center">
+                  <svg className="w-3.5 h-3.5 text-[var(--text-primary)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                </div>
+                <h4 className="text-lg font-medium text-[var(--text-primary)]">Slide Deck Analysis</h4>
+              </div>
+            )}
+            <PDFAnalysisResults data={pdfResult} onReset={onReset} deckFile={deckFile} context={context} />
+          </div>
+        )}
+
+        {jobId && (
+          <div>
+            <div className="flex items-center gap-2 mb-4 mt-8">
+              <div className="w-6 h-6 rounded-full bg-[var(--text-primary)]/10 flex items-center justify-center">
+                <svg className="w-3.5 h-3.5 text-[var(--text-primary)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                </svg>
+              </div>
+              <h4 className="text-lg font-medium text-[var(--text-primary)]">Market Analysis</h4>
+            </div>
+            <MarketAnalysisPanel
+              jobId={jobId}
+              initialResult={market}
+              defaultCompanyName={context?.title}
+              onComplete={(result) => {
+                updateAnalysis(jobId, { market: result })
+                  .catch((error) => console.error("Failed to save market analysis:", error));
+              }}
+            />
+          </div>
+        )}
+      </section>
+
+      {isExporting && createPortal(
+        <CoachingReport
+          title={reportTitle}
+          audioResult={audioResult}
+          pdfResult={pdfResult}
+          context={context}
+          createdAt={createdAt}
+          fillerDictionary={fillerDictionary}
+          coachingEvents={coachingEvents}
+        />,
+        document.body,
+      )}
+    </PlaybackProvider>
+  );
+}
@@ -1,22 +1,53 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from "react";
+import { TimeLimitCountdown } from "@/app/components/TimeLimitCountdown";
+import { LiveCoachingPanel } from "@/app/components/LiveCoachingPanel";
+import { useLiveCoaching } from "@/app/hooks/useLiveCoaching";
+import type { LanguageHint } from "@/app/services/api";
+import { preprocessAudio } from "@/app/services/audioPreprocessing";
+
+const AUDIO_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+};
 
 interface AudioRecorderProps {
   onRecordingComplete: (file: File, audioUrl: string) => void;
   disabled?: boolean;
+  timeLimitSec?: number | null;
+  autoStop?: boolean; // stop and save once the time limit is reached
+  liveCoaching?: boolean; // show live volume, pace and nudges while recording
+  streamFillers?: boolean; // stream audio to the server for live filler flags
+  language?: LanguageHint; // sets the live pace band and the server's filler list
 }
 
-export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderProps) {
+export function AudioRecorder({
+  onRecordingComplete,
+  disabled,
+  timeLimitSec,
+  autoStop,
+  liveCoaching = false,
+  streamFillers = false,
+  language,
+}: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [audioLevel, setAudioLevel] = useState(0);
   const [permissionDenied, setPermissionDenied] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const live = useLiveCoaching({ enabled: liveCoaching, streamFillers: liveCoaching && streamFillers, language });
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const elapsedRef = useRef(0);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -27,6 +58,16 @@ export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderPr
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
   };
 
+  const startTimer = () => {
+    timerRef.current = setInterval(() => {
+      elapsedRef.current += 1;
+      setRecordingTime(elapsedRef.current);
+      if (autoStop && timeLimitSec && elapsedRef.current >= timeLimitSec) {
+        stopRecording();
+      }
+    }, 1000);
+  };
+
   const updateAudioLevel = useCallback(() => {
     if (analyserRef.current && isRecording && !isPaused) {
       const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
@@ -58,22 +99,7 @@ export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderPr
       source.connect(analyser);
       analyserRef.current = analyser;
 
-      // Create MediaRecorder - try supported formats in order of preference
-      // Backend accepts: audio/webm, video/webm, video/mp4, audio/mpeg, audio/mp3, audio/wav
-      let mimeType = "audio/webm";
-      if (!MediaRecorder.isTypeSupported("audio/webm")) {
-        if (MediaRecorder.isTypeSupported("video/webm")) {
-          mimeType = "video/webm";
-        } else if (MediaRecorder.isTypeSupported("video/mp4")) {
-          mimeType = "video/mp4";
-        } else if (MediaRecorder.isTypeSupported("audio/mpeg")) {
-          mimeType = "audio/mpeg";
-        } else {
-          // Fallback to default if none supported
-          mimeType = "";
-        }
-      }
-
+      const mimeType = AUDIO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
       const mediaRecorder = new MediaRecorder(stream, {
         mimeType: mimeType || undefined,
       });
@@ -84,62 +110,45 @@ export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderPr
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           audioChunksRef.current.push(event.data);
+          live.sendChunk(event.data);
         }
       };
 
-      mediaRecorder.onstop = () => {
-        // Use the actual MIME type from MediaRecorder, but ensure it's compatible with backend
-        // Backend accepts: audio/mpeg, audio/mp3, audio/wav, video/mp4, audio/webm, video/webm
-        const recordedMimeType = mediaRecorder.mimeType || "";
-        let fileMimeType = recordedMimeType;
-        let extension = "webm";
-
-        // Map MIME types to backend-compatible ones
-        if (recordedMimeType.includes("webm")) {
-          // Prefer audio/webm if it starts with audio/, otherwise video/webm
-          fileMimeType = recordedMimeType.startsWith("audio/") ? "audio/webm" : "video/webm";
-          extension = "webm";
-        } else if (recordedMimeType.includes("mp4")) {
-          // Backend accepts video/mp4 but NOT audio/mp4, so always use video/mp4 for mp4
-          fileMimeType = "video/mp4";
-          extension = "mp4";
-        } else if (recordedMimeType.includes("mpeg") || recordedMimeType.includes("mp3")) {
-          fileMimeType = "audio/mpeg";
-          extension = "mp3";
-        } else if (recordedMimeType.includes("wav")) {
-          fileMimeType = "audio/wav";
-          extension = "wav";
-        } else {
-          // Default fallback to audio/webm (most common supported format)
-          fileMimeType = "audio/webm";
-          extension = "webm";
-        }
-
-        const audioBlob = new Blob(audioChunksRef.current, {
-          type: fileMimeType
-        });
-
-        // Convert to File object with backend-compatible MIME type
-        const fileName = `recording-${Date.now()}.${extension}`;
-        const file = new File([audioBlob], fileName, { type: fileMimeType });
-        const audioUrl = URL.createObjectURL(audioBlob);
+      mediaRecorder.onstop = async () => {
+        // The last ondataavailable fires just before this, so its chunk has been sent
+        live.stop();
 
-        onRecordingComplete(file, audioUrl);
+        // Keep the type the browser actually recorded; preprocessing below turns
+        // it into a format the backend accepts
+        const fileMimeType = (mediaRecorder.mimeType || audioChunksRef.current[0]?.type || "audio/webm").split(";")[0];
+        const extension = AUDIO_EXTENSIONS[fileMimeType] ?? "webm";
+        const file = new File(audioChunksRef.current, `recording-${Date.now()}.${extension}`, { type: fileMimeType });
 
         // Clean up stream
         stream.getTracks().forEach(track => track.stop());
         streamRef.current = null;
+
+        // Shrink to 16 kHz mono speech audio; the raw recording still uploads, with
+        // its real type, if that fails
+        setIsProcessing(true);
+        let prepared = file;
+        try {
+          prepared = (await preprocessAudio(file)).file;
+        } catch (error) {
+          console.error("Audio preprocessing failed, uploading the original recording:", error);
+        } finally {
+          setIsProcessing(false);
+        }
+        onRecordingComplete(prepared, URL.createObjectURL(prepared));
       };
 
+      live.start(mediaRecorder, source);
       mediaRecorder.start(100); // Collect data every 100ms
       setIsRecording(true);
       setIsPaused(false);
       setRecordingTime(0);
-
-      // Start timer
-      timerRef.current = setInterval(() => {
-        setRecordingTime((prev) => prev + 1);
-      }, 1000);
+      elapsedRef.current = 0;
+      startTimer();
 
       // Start audio level visualization
       updateAudioLevel();
@@ -154,9 +163,7 @@ export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderPr
     if (mediaRecorderRef.current && isRecording) {
       if (isPaused) {
         mediaRecorderRef.current.resume();
-        timerRef.current = setInterval(() => {
-          setRecordingTime((prev) => prev + 1);
-        }, 1000);
+        startTimer();
         updateAudioLevel();
       } else {
         mediaRecorderRef.current.pause();
@@ -171,8 +178,10 @@ export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderPr
     }
   };
 
+  // Checks the recorder rather than isRecording so the timer can call it for auto-stop
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
+      // The live stream is closed in onstop, after the final chunk is sent
       mediaRecorderRef.current.stop();
       setIsRecording(false);
       setIsPaused(false);
@@ -192,6 +201,7 @@ export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderPr
       mediaRecorderRef.current.stop();
       audioChunksRef.current = [];
     }
+    live.stop();
 
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
@@ -246,6 +256,15 @@ export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderPr
     );
   }
 
+  if (isProcessing) {
+    return (
+      <div className="p-4 rounded bg-[var(--bg-secondary)] border border-[var(--border-primary)] flex items-center gap-3">
+        <span className="w-5 h-5 rounded-full border-2 border-[var(--accent-blue)] border-t-transparent animate-spin" />
+        <span className="text-sm font-medium text-[var(--text-primary)]">Preparing audio...</span>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
       {/* Recording Controls */}
@@ -285,6 +304,12 @@ export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderPr
             </div>
           </div>
 
+          {timeLimitSec && (
+            <div className="mb-4">
+              <TimeLimitCountdown elapsed={recordingTime} limit={timeLimitSec} autoStop={autoStop} />
+            </div>
+          )}
+
           {/* Audio Level Visualization */}
           <div className="h-12 mb-4 flex items-center justify-center gap-1">
             {Array.from({ length: 20 }).map((_, i) => {
@@ -307,6 +332,17 @@ export function AudioRecorder({ onRecordingComplete, disabled }: AudioRecorderPr
             })}
           </div>
 
+          {liveCoaching && (
+            <div className="mb-4">
+              <LiveCoachingPanel
+                snapshot={live.snapshot}
+                fillers={live.fillers}
+                streamError={live.streamError}
+                language={language}
+              />
+            </div>
+          )}
+
           {/* Control Buttons */}
           <div className="flex items-center justify-center gap-3">
             {/* Cancel Button */}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { TimelineBar, EVENT_STYLES } from "@/app/components/TimelineBar";
+import { usePlayback } from "@/app/components/PlaybackContext";
+import type { CoachingEvent } from "@/app/services/coachingEvents";
+
+interface CoachingEventsPanelProps {
+  events: CoachingEvent[];
+  duration: number; // seconds
+}
+
+const formatClock = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+};
+
+export function CoachingEventsPanel({ events, duration }: CoachingEventsPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { currentTime, seek } = usePlayback();
+
+  const handleSelect = (event: CoachingEvent) => {
+    setSelectedId(event.id);
+    seek(event.tMs / 1000);
+    document.getElementById(`coaching-event-${event.id}`)?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  };
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-[var(--text-tertiary)]">
+        No notable moments detected. Your delivery was consistent throughout.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <TimelineBar
+        events={events}
+        duration={duration}
+        currentTime={currentTime}
+        selectedId={selectedId}
+        onSelect={handleSelect}
+      />
+      <div className="flex flex-wrap justify-center gap-4 text-xs text-[var(--text-tertiary)]">
+        {Object.entries(EVENT_STYLES).map(([type, style]) => (
+          <span key={type} className="flex items-center gap-1">
+            <span className={`w-2 h-2 rounded-full ${style.color}`}></span>
+            {style.label}
+          </span>
+        ))}
+      </div>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {events.map((event) => (
+          <button
+            key={event.id}
+            id={`coaching-event-${event.id}`}
+            onClick={() => handleSelect(event)}
+            className={`w-full text-left p-4 rounded-sm border transition-colors ${
+              event.id === selectedId
+                ? "bg-[var(--accent-primary)]/10 border-[var(--accent-primary)]/30"
+                : "bg-[var(--bg-tertiary)] border-transparent hover:border-[var(--border-primary)]"
+            }`}
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <span className={`w-2 h-2 rounded-full ${EVENT_STYLES[event.type].color}`}></span>
+              <span className="text-xs font-mono text-[var(--text-tertiary)]">{formatClock(event.tMs)}</span>
+              <span className="font-medium text-[var(--text-primary)]">{event.title}</span>
+            </div>
+            <p className="text-sm text-[var(--text-secondary)]">{event.detail}</p>
+            {event.evidence && (
+              <p className="text-xs text-[var(--text-tertiary)] mt-1">{event.evidence}</p>
+            )}
+            <p className="text-xs text-[var(--text-tertiary)] mt-2">
+              <span className="font-medium text-[var(--text-secondary)]">Try: </span>
+              {event.suggestion}
+            </p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+"use client";
+
+import type { ReactNode } from "react";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ReferenceArea,
+  RadarChart,
+  PolarGrid,
+  PolarAngleAxis,
+  PolarRadiusAxis,
+  Radar,
+} from "recharts";
+import type { AudioAnalysisResponse, InsightItem, Insights, PDFAnalysisResponse, PitchContext } from "@/app/services/api";
+import {
+  calculateDeckMetrics,
+  calculateSpeechMetrics,
+  deckPerformanceData,
+  speechPerformanceData,
+  type PerformancePoint,
+} from "@/app/services/metrics";
+import { fillerWordIndexes, type FillerDictionary } from "@/app/services/fillers";
+import type { CoachingEvent } from "@/app/services/coachingEvents";
+import { getLanguage, type LanguageConfig } from "@/app/services/languages";
+import { audiencePhrase, formatTimeLimit } from "@/app/services/pitchContext";
+
+interface CoachingReportProps {
+  title: string;
+  audioResult: AudioAnalysisResponse | null;
+  pdfResult: PDFAnalysisResponse | null;
+  context?: PitchContext | null;
+  createdAt?: string | null;
+  fillerDictionary: FillerDictionary; // the user's dictionary, so the report matches the results page
+  coachingEvents: CoachingEvent[];
+}
+
+// Print layout uses fixed light colors rather than the theme variables, so the
+// exported PDF looks the same whichever theme the app is in.
+const ACCENT = "#2563eb";
+const CHART_WIDTH = 680;
+const MAX_PACE_POINTS = 150;
+
+type InsightLabel = "clarity" | "pacing" | "fillerWords" | "structure" | "engagement" | "audienceFit";
+
+const INSIGHT_LABELS: { key: Exclude<keyof Insights, "overall_verdict">; label: InsightLabel }[] = [
+  { key: "clarity", label: "clarity" },
+  { key: "pacing", label: "pacing" },
+  { key: "filler_words", label: "fillerWords" },
+  { key: "structure", label: "structure" },
+  { key: "engagement", label: "engagement" },
+  { key: "audience_fit", label: "audienceFit" },
+];
+
+const formatClock = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+const scoreTone = (score: number): string =>
+  score >= 80 ? "text-green-700" : score >= 60 ? "text-amber-600" : "text-red-700";
+
+function ReportHeading({ children }: { children: ReactNode }) {
+  return (
+    <h2 className="text-xl font-semibold text-gray-900 border-b-2 pb-2 mb-4" style={{ borderColor: ACCENT }}>
+      {children}
+    </h2>
+  );
+}
+
+function StatGrid({ stats }: { stats: { label: string; value: string }[] }) {
+  return (
+    <div className="grid grid-cols-5 gap-3 mb-6">
+      {stats.map((stat) => (
+        <div key={stat.label} className="rounded border border-gray-200 p-3">
+          <p className="text-xs text-gray-500">{stat.label}</p>
+          <p className="text-lg font-semibold text-gray-900">{stat.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PerformanceRadar({ data }: { data: PerformancePoint[] }) {
+  return (
+    <RadarChart width={320} height={240} data={data} outerRadius={80}>
+      <PolarGrid stroke="#d1d5db" />
+      <PolarAngleAxis dataKey="metric" tick={{ fill: "#374151", fontSize: 11 }} />
+      <PolarRadiusAxis angle={30} domain={[0, 100]} tick={{ fill: "#9ca3af", fontSize: 9 }} />
+      <Radar dataKey="value" stroke={ACCENT} fill={ACCENT} fillOpacity={0.25} isAnimationActive={false} />
+    </RadarChart>
+  );
+}
+
+function InsightRow({ label, actionLabel, item }: { label: string; actionLabel: string; item: InsightItem }) {
+  return (
+    <div className="report-avoid-break rounded border border-gray-200 p-3">
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="font-semibold text-gray-900">{label}</h4>
+        <span className="text-sm font-medium text-gray-600">{item.score}/5</span>
+      </div>
+      <p className="text-sm text-gray-700 mb-1">{item.insight}</p>
+      <p className="text-sm text-gray-900">
+        <span className="font-medium" style={{ color: ACCENT }}>{actionLabel}: </span>
+        {item.action}
+      </p>
+    </div>
+  );
+}
+
+interface SpeechReportProps {
+  data: AudioAnalysisResponse;
+  fillerDictionary: FillerDictionary;
+  events: CoachingEvent[];
+}
+
+function SpeechReport({ data, fillerDictionary, events }: SpeechReportProps) {
+  const metrics = calculateSpeechMetrics(data, fillerDictionary);
+  const fillerIndexes = fillerWordIndexes(metrics.fillerMatches);
+  const { pace, strings, report } = getLanguage(data.language);
+
+  const timestamps = data.timestamps || [];
+  const step = Math.max(1, Math.ceil(timestamps.length / MAX_PACE_POINTS));
+  const paceData = timestamps
+    .filter((_, index) => index % step === 0)
+    .map(([time, spm]) => ({ time: Math.round(time), spm: Math.round(spm) }));
+
+  const wordClass = (index: number, speed: string): string => {
+    if (fillerIndexes.has(index)) return "bg-orange-100 text-orange-800 underline decoration-orange-400";
+    if (speed === "Too Fast" || speed === "Too Slow") return "text-red-700";
+    if (speed === "Fast") return "text-amber-600";
+    return "text-gray-800";
+  };
+
+  return (
+    <>
+      <section className="report-page">
+        <ReportHeading>{report.speechDelivery}</ReportHeading>
+        <StatGrid
+          stats={[
+            { label: report.overallScore, value: `${metrics.overallScore}` },
+            { label: strings.duration, value: formatClock(metrics.duration) },
+            { label: strings.words, value: `${metrics.totalWords}` },
+            { label: strings.idealPace, value: `${Math.round(metrics.idealPercentage)}%` },
+            { label: strings.fillers, value: `${metrics.fillerCount}` },
+          ]}
+        />
+
+        <div className="flex items-start gap-6 mb-6">
+          <PerformanceRadar data={speechPerformanceData(metrics)} />
+          {data.insights?.overall_verdict && (
+            <div className="flex-1">
+              <h3 className="font-semibold text-gray-900 mb-2">{strings.verdict}</h3>
+              <p className="text-sm text-gray-700 leading-relaxed">{data.insights.overall_verdict}</p>
+            </div>
+          )}
+        </div>
+
+        {paceData.length > 0 && (
+          <div className="report-avoid-break">
+            <h3 className="font-semibold text-gray-900 mb-1">{strings.paceOverTime}</h3>
+            <p className="text-xs text-gray-500 mb-2">{strings.paceOverTimeHint(pace.slowBelow, pace.fastAbove)}</p>
+            <AreaChart width={CHART_WIDTH} height={220} data={paceData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="time" type="number" domain={[0, "dataMax"]} tickFormatter={formatClock} tick={{ fill: "#6b7280", fontSize: 10 }} />
+              <YAxis domain={[0, "auto"]} tick={{ fill: "#6b7280", fontSize: 10 }} />
+              <ReferenceArea y1={pace.slowBelow} y2={pace.fastAbove} fill="#10b981" fillOpacity={0.12} />
+              <Area type="monotone" dataKey="spm" stroke={ACCENT} fill={ACCENT} fillOpacity={0.15} isAnimationActive={false} />
+            </AreaChart>
+          </div>
+        )}
+      </section>
+
+      {data.insights && (
+        <section className="report-page">
+          <ReportHeading>{report.insightsAndActions}</ReportHeading>
+          <div className="space-y-3">
+            {INSIGHT_LABELS.map(({ key, label }) => {
+              const item = data.insights[key];
+              return item ? <InsightRow key={key} label={strings[label]} actionLabel={report.action} item={item} /> : null;
+            })}
+          </div>
+
+          {events.length > 0 && (
+            <div className="mt-6">
+              <h3 className="font-semibold text-gray-900 mb-2">{strings.coachingMoments}</h3>
+              <ul className="space-y-2">
+                {events.map((event) => (
+                  <li key={event.id} className="report-avoid-break text-sm">
+                    <span className="font-mono text-gray-500 mr-2">{formatClock(event.tMs / 1000)}</span>
+                    <span className="font-medium text-gray-900">{event.title}.</span>{" "}
+                    <span className="text-gray-700">{event.suggestion}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+
+      {metrics.totalWords > 0 && (
+        <section className="report-page">
+          <ReportHeading>{report.annotatedTranscript}</ReportHeading>
+          <div className="flex gap-4 text-xs text-gray-600 mb-3">
+            <span><span className="px-1 bg-orange-100 text-orange-800 underline decoration-orange-400">{strings.fillerLegend}</span></span>
+            <span className="text-amber-600">{strings.speed.Fast}</span>
+            <span className="text-red-700">{strings.tooSlowOrFast}</span>
+          </div>
+          <p className="text-sm leading-7">
+            {data.word_analysis.map((word, index) => (
+              <span key={index} className={wordClass(index, word.speed)}>
+                {word.word}{" "}
+              </span>
+            ))}
+          </p>
+        </section>
+      )}
+    </>
+  );
+}
+
+function DeckReport({ data, language }: { data: PDFAnalysisResponse; language: LanguageConfig }) {
+  const metrics = calculateDeckMetrics(data);
+  const critique = data.deck;
+  const { report, strings } = language;
+
+  return (
+    <>
+      <section className="report-page">
+        <ReportHeading>{report.slideDeck}</ReportHeading>
+        <StatGrid
+          stats={[
+            { label: report.overallScore, value: `${metrics.overallScore}` },
+            { label: report.slides, value: `${data.total_pages}` },
+            { label: strings.words, value: `${metrics.totalWords}` },
+            { label: report.wordsPerSlide, value: `${metrics.avgWordsPerSlide}` },
+            { label: report.bulletPoints, value: `${metrics.totalBullets}` },
+          ]}
+        />
+
+        <div className="flex items-start gap-6 mb-6">
+          <PerformanceRadar data={deckPerformanceData(metrics)} />
+          <div className="flex-1">
+            <h3 className="font-semibold text-gray-900 mb-2">{report.summary}</h3>
+            <p className="text-sm text-gray-700 leading-relaxed">{critique?.overallSummary || data.summary}</p>
+          </div>
+        </div>
+
+        {critique && critique.topFixes.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">{report.topFixes}</h3>
+            <ol className="space-y-2 list-decimal list-inside">
+              {critique.topFixes.map((fix, index) => (
+                <li key={index} className="report-avoid-break text-sm text-gray-700">
+                  <span className="font-medium text-gray-900">{fix.title}.</span> {fix.why}{" "}
+                  <span style={{ color: ACCENT }}>{fix.how}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </section>
+
+      <section className="report-page">
+        <ReportHeading>{report.slideNotes}</ReportHeading>
+        <div className="space-y-4">
+          {critique
+            ? critique.perSlide.map((slide) => (
+                <div key={slide.slideIndex} className="report-avoid-break rounded border border-gray-200 p-3">
+                  <h4 className="font-semibold text-gray-900 mb-1">
+                    {report.slide(slide.slideIndex + 1)}{slide.title ? `: ${slide.title}` : ""}
+                  </h4>
+                  <p className="text-sm text-gray-700 mb-2">{slide.summary}</p>
+                  {slide.issues.length > 0 && (
+                    <ul className="text-sm text-gray-700 list-disc list-inside mb-2">
+                      {slide.issues.map((issue, index) => (
+                        <li key={index}>
+                          <span className="font-medium">{report.issueTypes[issue.type] ?? issue.type}:</span> {issue.detail}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {slide.rewriteSuggestions.map((suggestion, index) => (
+                    <div key={index} className="text-sm pl-3 border-l-2 border-gray-300 mb-1">
+                      {suggestion.before && <p className="text-gray-500 line-through">{suggestion.before}</p>}
+                      <p className="text-green-700">{suggestion.after}</p>
+                    </div>
+                  ))}
+                </div>
+              ))
+            : metrics.slideStats.map((slide) => (
+                <div key={slide.pageNumber} className="report-avoid-break rounded border border-gray-200 p-3">
+                  <h4 className="font-semibold text-gray-900 mb-1">
+                    {report.slide(slide.pageNumber)}
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      {report.slideStats(slide.wordCount, slide.bulletPoints)}
+                    </span>
+                  </h4>
+                  <p className="text-sm text-gray-700 whitespace-pre-line line-clamp-6">{slide.text || report.noSlideText}</p>
+                </div>
+              ))}
+        </div>
+      </section>
+    </>
+  );
+}
+
+// Printable multi-page report. Rendered only while exporting, and shown only
+// by the print stylesheet. Deck results carry no language, so the whole report
+// follows the speech analysis.
+export function CoachingReport({
+  title,
+  audioResult,
+  pdfResult,
+  context,
+  createdAt,
+  fillerDictionary,
+  coachingEvents,
+}: CoachingReportProps) {
+  const language = getLanguage(audioResult?.language);
+  const { report } = language;
+  const audience = audiencePhrase(context?.audienceType ?? null);
+  const speechScore = audioResult ? calculateSpeechMetrics(audioResult).overallScore : null;
+  const deckScore = pdfResult ? calculateDeckMetrics(pdfResult).overallScore : null;
+  const date = createdAt ? new Date(createdAt) : new Date();
+
+  return (
+    <div className="print-report bg-white text-gray-900" style={{ width: CHART_WIDTH + 40 }}>
+      {/* Cover */}
+      <section className="report-page flex flex-col justify-between" style={{ minHeight: "250mm" }}>
+        <div>
+          <p className="text-sm font-semibold tracking-widest uppercase" style={{ color: ACCENT }}>Pitch Perfect</p>
+          <p className="text-sm text-gray-500">{report.title}</p>
+        </div>
+
+        <div>
+          <h1 className="text-4xl font-bold text-gray-900 mb-3">{title}</h1>
+          <p className="text-gray-600">{date.toLocaleDateString(language.code, { year: "numeric", month: "long", day: "numeric" })}</p>
+          {context && (audience || context.timeLimitSec || context.goal) && (
+            <div className="mt-6 space-y-1 text-sm text-gray-700">
+              {audience && <p>{report.audience}: {audience}</p>}
+              {context.timeLimitSec && <p>{report.timeLimit}: {formatTimeLimit(context.timeLimitSec)}</p>}
+              {context.goal && <p>{report.goal}: {context.goal}</p>}
+            </div>
+          )}
+          {context?.description && <p className="mt-4 text-sm text-gray-600 italic">&ldquo;{context.description}&rdquo;</p>}
+        </div>
+
+        <div className="flex gap-6">
+          {speechScore !== null && (
+            <div className="rounded border border-gray-200 p-4 flex-1">
+              <p className="text-sm text-gray-500">{report.speechScore}</p>
+              <p className={`text-4xl font-bold ${scoreTone(speechScore)}`}>{speechScore}</p>
+            </div>
+          )}
+          {deckScore !== null && (
+            <div className="rounded border border-gray-200 p-4 flex-1">
+              <p className="text-sm text-gray-500">{report.deckScore}</p>
+              <p className={`text-4xl font-bold ${scoreTone(deckScore)}`}>{deckScore}</p>
+            </div>
+          )}
+        </div>
+      </section>
+
+      {audioResult && <SpeechReport data={audioResult} fillerDictionary={fillerDictionary} events={coachingEvents} />}
+      {pdfResult && <DeckReport data={pdfResult} language={language} />}
+    </div>
+  );
+}
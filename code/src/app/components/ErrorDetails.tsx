@@ -0,0 +1,28 @@
+"use client";
+
+import type { ApiError } from "@/app/services/api";
+
+export function ErrorIcon({ className = "" }: { className?: string }) {
+  return (
+    <svg className={`w-5 h-5 text-red-400 shrink-0 ${className}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+    </svg>
+  );
+}
+
+interface ErrorDetailsProps {
+  error: ApiError;
+  className?: string;
+}
+
+// The error code, HTTP status and request id, selectable so users can quote
+// them when reporting a problem
+export function ErrorDetails({ error, className = "" }: ErrorDetailsProps) {
+  const details = [
+    `Code: ${error.code}`,
+    error.status !== null && `HTTP ${error.status}`,
+    error.requestId && `Request ID: ${error.requestId}`,
+  ].filter(Boolean);
+
+  return <p className={`text-xs font-mono text-[var(--text-primary)]/30 select-all ${className}`}>{details.join(" · ")}</p>;
+}
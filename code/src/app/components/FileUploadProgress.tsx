@@ -0,0 +1,68 @@
+"use client";
+
+import { ErrorIcon } from "@/app/components/ErrorDetails";
+import type { FileUploadState } from "@/app/hooks/useFileUploads";
+
+interface FileUploadProgressProps {
+  upload?: FileUploadState;
+  onRetry: () => void;
+}
+
+export function FileUploadProgress({ upload, onRetry }: FileUploadProgressProps) {
+  if (!upload) return null;
+
+  const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${Math.round(bytes)} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const percent = upload.total > 0 ? Math.min(100, (upload.loaded / upload.total) * 100) : 0;
+
+  if (upload.status === "error") {
+    return (
+      <div className="mt-4 flex items-center gap-3 p-3 rounded-xl bg-red-500/10 border border-red-500/20">
+        <ErrorIcon />
+        <div className="flex-1 min-w-0">
+          <p className="text-red-400 text-sm truncate">{upload.error || "Upload failed"}</p>
+          <p className="text-xs text-[var(--text-primary)]/40">
+            {formatBytes(upload.loaded)} of {formatBytes(upload.total)} uploaded
+          </p>
+        </div>
+        <button
+          onClick={onRetry}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium text-[var(--text-primary)] bg-[var(--text-primary)]/10 hover:bg-[var(--accent-blue-subtle)] hover:text-[var(--accent-blue)] transition-colors"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-1 text-xs text-[var(--text-primary)]/50">
+        <span>
+          {upload.status === "done"
+            ? "Uploaded"
+            : `Uploading ${formatBytes(upload.loaded)} of ${formatBytes(upload.total)}`}
+        </span>
+        <span>
+          {upload.status === "done"
+            ? "100%"
+            : `${Math.round(percent)}%${upload.bytesPerSecond > 0 ? ` · ${formatBytes(upload.bytesPerSecond)}/s` : ""}`}
+        </span>
+      </div>
+      <div className="h-1 bg-[var(--text-primary)]/10 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ease-out ${
+            upload.status === "done"
+              ? "bg-green-500"
+              : "bg-gradient-to-r from-[var(--accent-blue-muted)] to-[var(--accent-blue)]"
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { DEFAULT_FILLER_DICTIONARY, normalizeWord, type CustomFillers, type FillerDictionary } from "@/app/services/fillers";
+
+interface FillerDictionaryEditorProps {
+  custom: CustomFillers;
+  onChange: (custom: CustomFillers) => void;
+  defaults?: FillerDictionary; // built-in entries for the analysis language
+}
+
+export function FillerDictionaryEditor({ custom, onChange, defaults = DEFAULT_FILLER_DICTIONARY }: FillerDictionaryEditorProps) {
+  const [newEntry, setNewEntry] = useState("");
+  const removed = new Set(custom.removed);
+  const defaultEntries = [...defaults.always, ...defaults.contextual];
+  const contextual = new Set(defaults.contextual);
+
+  const toggleDefault = (entry: string) => {
+    onChange({
+      ...custom,
+      removed: removed.has(entry) ? custom.removed.filter((e) => e !== entry) : [...custom.removed, entry],
+    });
+  };
+
+  const addEntry = () => {
+    const entry = newEntry.trim().split(/\s+/).map(normalizeWord).filter(Boolean).join(" ");
+    setNewEntry("");
+    if (!entry || custom.added.includes(entry)) return;
+    onChange({ added: [...custom.added, entry], removed: custom.removed.filter((e) => e !== entry) });
+  };
+
+  return (
+    <div className="p-4 rounded-sm bg-[var(--bg-tertiary)] space-y-4">
+      <div>
+        <p className="text-sm text-[var(--text-secondary)] mb-2">
+          Built-in fillers. Click one to stop flagging it. Words marked * only count when used as filler, e.g. &quot;like&quot; but not &quot;I like it&quot;.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {defaultEntries.map((entry) => (
+            <button
+              key={entry}
+              onClick={() => toggleDefault(entry)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                removed.has(entry)
+                  ? "bg-[var(--bg-secondary)] text-[var(--text-muted)] line-through"
+                  : "bg-orange-500/10 text-orange-400 hover:bg-orange-500/20"
+              }`}
+            >
+              {entry}{contextual.has(entry) ? "*" : ""}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm text-[var(--text-secondary)] mb-2">Your own words and phrases, always flagged.</p>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {custom.added.length === 0 && <span className="text-xs text-[var(--text-muted)]">None yet</span>}
+          {custom.added.map((entry) => (
+            <span key={entry} className="flex items-center gap-1 px-2.5 py-1 rounded-full bg-purple-500/10 text-purple-400 text-xs font-medium">
+              {entry}
+              <button
+                onClick={() => onChange({ ...custom, added: custom.added.filter((e) => e !== entry) })}
+                title={`Remove "${entry}"`}
+                className="hover:text-[var(--error)]"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addEntry();
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={newEntry}
+            onChange={(e) => setNewEntry(e.target.value)}
+            placeholder='e.g. "to be honest"'
+            className="flex-1 px-3 py-1.5 rounded-sm bg-[var(--bg-secondary)] border border-[var(--border-primary)] text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-blue)]"
+          />
+          <button
+            type="submit"
+            disabled={!newEntry.trim()}
+            className="px-3 py-1.5 rounded-sm bg-[var(--accent-primary)] text-[var(--bg-primary)] text-sm font-medium disabled:opacity-40"
+          >
+            Add
+          </button>
+        </form>
+      </div>
+
+      {(custom.added.length > 0 || custom.removed.length > 0) && (
+        <button
+          onClick={() => onChange({ added: [], removed: [] })}
+          className="text-xs text-[var(--accent-primary)] hover:underline"
+        >
+          Reset to defaults
+        </button>
+      )}
+    </div>
+  );
+}
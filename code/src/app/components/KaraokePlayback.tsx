@@ -1,7 +1,9 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import type { WordAnalysis } from "@/app/services/api";
+import { computeWordTimings, findWordIndexAt } from "@/app/services/timing";
+import { usePlayback } from "@/app/components/PlaybackContext";
 
 interface KaraokePlaybackProps {
   audioUrl: string;
@@ -17,52 +19,47 @@ export function KaraokePlayback({
   timestamps,
 }: KaraokePlaybackProps) {
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
+  const { currentTime, seek, reportTime, attachMedia } = usePlayback();
   const [duration, setDuration] = useState(0);
-  const [currentWordIndex, setCurrentWordIndex] = useState(-1);
   const [playbackRate, setPlaybackRate] = useState(1);
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const wordRefs = useRef<(HTMLSpanElement | null)[]>([]);
 
+  const attachAudio = useCallback((element: HTMLAudioElement | null) => {
+    audioRef.current = element;
+    attachMedia(element);
+  }, [attachMedia]);
+
   // Calculate the total duration from timestamps if available
   const totalDuration = timestamps.length > 0
     ? timestamps[timestamps.length - 1][0]
     : duration;
 
-  // Calculate word timings by distributing words evenly across the duration
-  const wordTimings = wordAnalysis.map((_, index) => {
-    const wordDuration = totalDuration / wordAnalysis.length;
-    return {
-      start: index * wordDuration,
-      end: (index + 1) * wordDuration,
-    };
-  });
-
-  // Update current word based on playback time
-  useEffect(() => {
-    if (!isPlaying || wordTimings.length === 0) return;
+  // Real word times from the STT, or an estimate from the pace series
+  const wordTimings = useMemo(
+    () => computeWordTimings(wordAnalysis, timestamps, duration),
+    [wordAnalysis, timestamps, duration],
+  );
 
-    const newIndex = wordTimings.findIndex(
-      (timing) => currentTime >= timing.start && currentTime < timing.end
-    );
+  // Nothing is highlighted until playback has started
+  const currentWordIndex = isPlaying || currentTime > 0 ? findWordIndexAt(wordTimings, currentTime) : -1;
 
-    if (newIndex !== currentWordIndex && newIndex !== -1) {
-      setCurrentWordIndex(newIndex);
+  // Auto-scroll to keep current word in view
+  useEffect(() => {
+    if (currentWordIndex === -1) return;
 
-      // Auto-scroll to keep current word in view
-      const wordEl = wordRefs.current[newIndex];
-      if (wordEl && containerRef.current) {
-        const containerRect = containerRef.current.getBoundingClientRect();
-        const wordRect = wordEl.getBoundingClientRect();
+    const wordEl = wordRefs.current[currentWordIndex];
+    if (wordEl && containerRef.current) {
+      const containerRect = containerRef.current.getBoundingClientRect();
+      const wordRect = wordEl.getBoundingClientRect();
 
-        if (wordRect.top < containerRect.top || wordRect.bottom > containerRect.bottom) {
-          wordEl.scrollIntoView({ behavior: "smooth", block: "center" });
-        }
+      if (wordRect.top < containerRect.top || wordRect.bottom > containerRect.bottom) {
+        wordEl.scrollIntoView({ behavior: "smooth", block: "center" });
       }
     }
-  }, [currentTime, isPlaying, wordTimings, currentWordIndex]);
+  }, [currentWordIndex]);
 
   const handleLoadedMetadata = () => {
     if (audioRef.current) {
@@ -72,17 +69,13 @@ export function KaraokePlayback({
 
   const handleTimeUpdate = () => {
     if (audioRef.current) {
-      setCurrentTime(audioRef.current.currentTime);
+      reportTime(audioRef.current.currentTime);
     }
   };
 
   const handleEnded = () => {
     setIsPlaying(false);
-    setCurrentWordIndex(-1);
-    setCurrentTime(0);
-    if (audioRef.current) {
-      audioRef.current.currentTime = 0;
-    }
+    seek(0);
   };
 
   const togglePlayPause = useCallback(() => {
@@ -97,11 +90,12 @@ export function KaraokePlayback({
   }, [isPlaying]);
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newTime = parseFloat(e.target.value);
-    setCurrentTime(newTime);
-    if (audioRef.current) {
-      audioRef.current.currentTime = newTime;
-    }
+    seek(parseFloat(e.target.value));
+  };
+
+  const seekToWord = (index: number) => {
+    const timing = wordTimings[index];
+    if (timing) seek(timing.start);
   };
 
   const handlePlaybackRateChange = (rate: number) => {
@@ -197,7 +191,9 @@ export function KaraokePlayback({
               <span
                 key={index}
                 ref={(el) => { wordRefs.current[index] = el; }}
-                className={`transition-all duration-150 ${getWordColorClass(word, isActive, isPast)} ${
+                onClick={() => seekToWord(index)}
+                title={wordTimings[index] ? formatTime(wordTimings[index].start) : undefined}
+                className={`cursor-pointer transition-all duration-150 ${getWordColorClass(word, isActive, isPast)} ${
                   isActive ? "scale-110 font-semibold" : ""
                 }`}
               >
@@ -313,7 +309,7 @@ export function KaraokePlayback({
 
       {/* Hidden Audio Element */}
       <audio
-        ref={audioRef}
+        ref={attachAudio}
         src={audioUrl}
         onLoadedMetadata={handleLoadedMetadata}
         onTimeUpdate={handleTimeUpdate}
@@ -0,0 +1,72 @@
+"use client";
+
+import type { LanguageHint, LiveFillerFlag } from "@/app/services/api";
+import { LOUD_DB, QUIET_DB, type LiveCoachingSnapshot, type LiveNudge } from "@/app/services/liveCoaching";
+import { getLanguage } from "@/app/services/languages";
+
+interface LiveCoachingPanelProps {
+  snapshot: LiveCoachingSnapshot;
+  fillers?: LiveFillerFlag[] | null; // null when filler streaming is off
+  streamError?: string | null;
+  language?: LanguageHint;
+}
+
+const METER_MIN_DB = -60;
+
+const NUDGES: Record<LiveNudge, string> = {
+  too_quiet: "Too quiet. Speak up or move closer to the mic.",
+  too_loud: "Too loud. Ease off or move back from the mic.",
+};
+
+const toMeterPercent = (db: number): number =>
+  Math.max(0, Math.min(100, ((db - METER_MIN_DB) / -METER_MIN_DB) * 100));
+
+export function LiveCoachingPanel({ snapshot, fillers, streamError, language }: LiveCoachingPanelProps) {
+  const { volumeDb, paceSpm, nudge } = snapshot;
+  const { pace } = getLanguage(language);
+  const paceTone = paceSpm === null
+    ? "text-[var(--text-tertiary)]"
+    : paceSpm < pace.slowBelow || paceSpm > pace.fastAbove ? "text-yellow-400" : "text-green-400";
+
+  return (
+    <div className="p-3 rounded-sm bg-[var(--bg-tertiary)] space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs text-[var(--text-tertiary)] mb-1">Volume</p>
+          <div className="relative h-2 rounded-full bg-[var(--bg-secondary)] overflow-hidden">
+            {/* Comfortable range */}
+            <div
+              className="absolute top-0 bottom-0 bg-green-500/20"
+              style={{ left: `${toMeterPercent(QUIET_DB)}%`, right: `${100 - toMeterPercent(LOUD_DB)}%` }}
+            />
+            <div
+              className={`absolute top-0 bottom-0 left-0 rounded-full transition-all duration-200 ${nudge ? "bg-yellow-400" : "bg-[var(--accent-primary)]"}`}
+              style={{ width: `${volumeDb === null ? 0 : toMeterPercent(volumeDb)}%` }}
+            />
+          </div>
+        </div>
+        <div>
+          <p className="text-xs text-[var(--text-tertiary)] mb-1">Pace (estimate)</p>
+          <p className={`text-sm font-semibold ${paceTone}`}>
+            {paceSpm === null ? "Listening…" : `~${paceSpm} SPM`}
+          </p>
+        </div>
+      </div>
+
+      {nudge && <p className="text-sm text-yellow-400">{NUDGES[nudge]}</p>}
+
+      {fillers && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-[var(--text-tertiary)]">Fillers: {fillers.length}</span>
+          {fillers.slice(-5).map((flag) => (
+            <span key={`${flag.word}-${flag.tMs}`} className="px-2 py-0.5 rounded-full bg-orange-500/20 text-orange-400 animate-fade-in">
+              {flag.word}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {streamError && <p className="text-xs text-[var(--text-muted)]">{streamError}. Live filler flags are off.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { ErrorDetails } from "@/app/components/ErrorDetails";
+import {
+  runMarketAnalysis,
+  isAbortError,
+  toApiError,
+  type ApiError,
+  type MarketAnalysisResult,
+  type MarketJobStatus,
+} from "@/app/services/api";
+
+interface MarketAnalysisPanelProps {
+  jobId: string; // the finished analysis the market scan is based on
+  initialResult?: MarketAnalysisResult | null;
+  defaultCompanyName?: string;
+  onComplete?: (result: MarketAnalysisResult) => void;
+}
+
+// Competitor scan, positioning and an outreach email, run on demand once the
+// pitch itself has been analyzed.
+export function MarketAnalysisPanel({ jobId, initialResult, defaultCompanyName = "", onComplete }: MarketAnalysisPanelProps) {
+  const [companyName, setCompanyName] = useState(defaultCompanyName);
+  const [website, setWebsite] = useState("");
+  const [industry, setIndustry] = useState("");
+  const [result, setResult] = useState<MarketAnalysisResult | null>(initialResult ?? null);
+  const [status, setStatus] = useState<MarketJobStatus | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [copyMessage, setCopyMessage] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    if (!companyName.trim() || isRunning) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setStatus(null);
+    setCopyMessage(null);
+
+    try {
+      const market = await runMarketAnalysis(
+        jobId,
+        { companyName: companyName.trim(), website: website.trim(), industryHint: industry.trim() },
+        { signal: controller.signal, onProgress: setStatus },
+      );
+      setResult(market);
+      onComplete?.(market);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Market analysis failed:", err);
+      setError(toApiError(err, "Market analysis failed. Please try again."));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleCopyEmail = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.pitchEmailTemplate);
+      setCopyMessage("Copied");
+    } catch {
+      setCopyMessage("Couldn't access the clipboard");
+    }
+  };
+
+  return (
+    <div className="bg-[var(--bg-secondary)] rounded border border-[var(--border-primary)] p-6 space-y-6">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleRun();
+        }}
+        className="space-y-4"
+      >
+        <div className="grid sm:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="market-company" className="block text-sm font-medium text-[var(--text-primary)]/60 mb-2">
+              Company Name
+            </label>
+            <input
+              id="market-company"
+              type="text"
+              value={companyName}
+              onChange={(e) => setCompanyName(e.target.value)}
+              placeholder="e.g., Acme Robotics"
+              required
+              className="wizard-input"
+            />
+          </div>
+          <div>
+            <label htmlFor="market-website" className="block text-sm font-medium text-[var(--text-primary)]/60 mb-2">
+              Website <span className="text-[var(--text-primary)]/30">(optional)</span>
+            </label>
+            <input
+              id="market-website"
+              type="url"
+              value={website}
+              onChange={(e) => setWebsite(e.target.value)}
+              placeholder="https://"
+              className="wizard-input"
+            />
+          </div>
+          <div>
+            <label htmlFor="market-industry" className="block text-sm font-medium text-[var(--text-primary)]/60 mb-2">
+              Industry <span className="text-[var(--text-primary)]/30">(optional)</span>
+            </label>
+            <input
+              id="market-industry"
+              type="text"
+              value={industry}
+              onChange={(e) => setIndustry(e.target.value)}
+              placeholder="e.g., Warehouse automation"
+              className="wizard-input"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <button
+            type="submit"
+            disabled={!companyName.trim() || isRunning}
+            className="px-4 py-2 rounded-xl bg-[var(--accent-primary)] text-[var(--bg-primary)] text-sm font-semibold hover:bg-[var(--accent-primary-hover)] transition-all duration-200 active:scale-[0.98] disabled:opacity-40"
+          >
+            {isRunning ? "Running..." : result ? "Run Again" : "Run Market Analysis (Yellowcake)"}
+          </button>
+          {isRunning && (
+            <div className="flex-1 max-w-xs">
+              <p className="text-xs text-[var(--text-tertiary)] mb-1">{status?.step || "Queued..."}</p>
+              <div className="h-1 bg-[var(--accent-blue)]/20 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-[var(--accent-blue)] transition-all duration-300 ease-out"
+                  style={{ width: `${Math.min(status?.progress ?? 0, 100)}%` }}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="space-y-1">
+            <p className="text-sm text-[var(--error)]">{error.message}</p>
+            <ErrorDetails error={error} />
+          </div>
+        )}
+      </form>
+
+      {result && (
+        <div className="space-y-6">
+          {result.summary && <p className="text-sm text-[var(--text-secondary)] leading-relaxed">{result.summary}</p>}
+
+          {result.competitors.length > 0 && (
+            <div>
+              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Competitors</h4>
+              <div className="grid md:grid-cols-2 gap-4">
+                {result.competitors.map((competitor) => (
+                  <div key={competitor.name} className="p-4 rounded-sm bg-[var(--bg-tertiary)] space-y-2">
+                    <p className="font-medium text-[var(--text-primary)]">{competitor.name}</p>
+                    <p className="text-sm text-[var(--text-secondary)]">{competitor.whyRelevant}</p>
+                    {competitor.evidence && (
+                      <p className="text-xs text-[var(--text-tertiary)] border-l-2 border-[var(--border-primary)] pl-2">
+                        {competitor.evidence}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result.positioningSuggestions.length > 0 && (
+            <div>
+              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Positioning</h4>
+              <ul className="space-y-2">
+                {result.positioningSuggestions.map((suggestion, index) => (
+                  <li key={index} className="flex gap-2 text-sm text-[var(--text-secondary)]">
+                    <span className="text-[var(--accent-primary)]">•</span>
+                    {suggestion}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result.pitchEmailTemplate && (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="text-lg font-medium text-[var(--text-primary)]">Pitch Email</h4>
+                <button
+                  onClick={handleCopyEmail}
+                  className="text-xs text-[var(--accent-primary)] hover:underline"
+                >
+                  {copyMessage ?? "Copy"}
+                </button>
+              </div>
+              <pre className="p-4 rounded-sm bg-[var(--bg-tertiary)] text-sm text-[var(--text-secondary)] whitespace-pre-wrap font-sans">
+                {result.pitchEmailTemplate}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useMemo, type ReactNode } from "react";
+import Image from "next/image";
 import {
   BarChart,
   Bar,
@@ -18,11 +19,18 @@ import {
   PolarRadiusAxis,
   Radar,
 } from "recharts";
-import type { PDFAnalysisResponse } from "@/app/services/api";
+import type { PDFAnalysisResponse, PitchContext } from "@/app/services/api";
+import { calculateDeckMetrics, deckPerformanceData } from "@/app/services/metrics";
+import { SlideCritiqueAccordion } from "@/app/components/SlideCritiqueAccordion";
+import { SlideViewer } from "@/app/components/SlideViewer";
+import { useSlideImages } from "@/app/hooks/useSlideImages";
+import { PitchContextSummary } from "@/app/components/PitchContextSummary";
 
 interface PDFAnalysisResultsProps {
   data: PDFAnalysisResponse;
   onReset: () => void;
+  deckFile?: Blob | null; // the uploaded PDF, for rendering slide images
+  context?: PitchContext | null; // falls back to the context echoed in the result
 }
 
 const COLORS = {
@@ -37,40 +45,19 @@ const COLORS = {
 
 type TabType = "overview" | "slides" | "content" | "insights";
 
-export function PDFAnalysisResults({ data, onReset }: PDFAnalysisResultsProps) {
+export function PDFAnalysisResults({ data, onReset, deckFile, context }: PDFAnalysisResultsProps) {
   const [activeTab, setActiveTab] = useState<TabType>("overview");
   const [selectedSlide, setSelectedSlide] = useState<number | null>(null);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const { images: slideImages, isRendering: isRenderingSlides, error: slideImagesError } = useSlideImages(deckFile ?? null);
 
   const analysis = useMemo(() => {
     const pages = data.pages || [];
     const totalPages = data.total_pages || 0;
 
-    // Calculate text statistics per slide
-    const slideStats = pages.map((page) => {
-      const text = page.text || "";
-      const wordCount = text.split(/\s+/).filter((w) => w.length > 0).length;
-      const charCount = text.length;
-      const lineCount = text.split("\n").filter((l) => l.trim().length > 0).length;
-      const bulletPoints = (text.match(/^[\s]*[-•*]\s/gm) || []).length;
-      const hasHeading = /^[A-Z][^.!?]*$/m.test(text);
-
-      return {
-        pageNumber: page.page_number,
-        text,
-        wordCount,
-        charCount,
-        lineCount,
-        bulletPoints,
-        hasHeading,
-        contentDensity: wordCount > 0 ? Math.min(100, Math.round((wordCount / 50) * 100)) : 0,
-      };
-    });
-
-    // Total statistics
-    const totalWords = slideStats.reduce((sum, s) => sum + s.wordCount, 0);
-    const totalChars = slideStats.reduce((sum, s) => sum + s.charCount, 0);
-    const totalBullets = slideStats.reduce((sum, s) => sum + s.bulletPoints, 0);
-    const avgWordsPerSlide = totalPages > 0 ? Math.round(totalWords / totalPages) : 0;
+    // Calculate text statistics and scores per slide
+    const metrics = calculateDeckMetrics(data);
+    const { slideStats } = metrics;
 
     // Word count distribution for bar chart
     const wordCountData = slideStats.map((s) => ({
@@ -94,55 +81,15 @@ export function PDFAnalysisResults({ data, onReset }: PDFAnalysisResultsProps) {
         color: COLORS.chart[index % COLORS.chart.length],
       }));
 
-    // Calculate overall scores based on presentation best practices
-    const structureScore = Math.min(100, Math.round(
-      (totalBullets > 0 ? 30 : 0) +
-      (avgWordsPerSlide >= 20 && avgWordsPerSlide <= 60 ? 40 : avgWordsPerSlide < 20 ? 20 : 10) +
-      (totalPages >= 5 && totalPages <= 20 ? 30 : 15)
-    ));
-
-    const clarityScore = Math.min(100, Math.round(
-      (avgWordsPerSlide <= 50 ? 50 : 25) +
-      (slideStats.filter((s) => s.bulletPoints > 0).length / Math.max(1, totalPages)) * 50
-    ));
-
-    const contentScore = Math.min(100, Math.round(
-      (totalWords >= 100 ? 40 : (totalWords / 100) * 40) +
-      (totalPages >= 5 ? 30 : (totalPages / 5) * 30) +
-      30
-    ));
-
-    const performanceData = [
-      { metric: "Structure", value: structureScore, fullMark: 100 },
-      { metric: "Clarity", value: clarityScore, fullMark: 100 },
-      { metric: "Content", value: contentScore, fullMark: 100 },
-      { metric: "Balance", value: Math.round(100 - (Math.abs(avgWordsPerSlide - 40) * 2)), fullMark: 100 },
-      { metric: "Engagement", value: Math.round(70 + (totalBullets / Math.max(1, totalPages)) * 10), fullMark: 100 },
-    ];
-
-    const overallScore = Math.round(
-      structureScore * 0.25 +
-      clarityScore * 0.25 +
-      contentScore * 0.25 +
-      performanceData[3].value * 0.15 +
-      performanceData[4].value * 0.1
-    );
+    const performanceData = deckPerformanceData(metrics);
 
     return {
+      ...metrics,
       pages,
       totalPages,
-      slideStats,
-      totalWords,
-      totalChars,
-      totalBullets,
-      avgWordsPerSlide,
       wordCountData,
       densityPieData,
       performanceData,
-      structureScore,
-      clarityScore,
-      contentScore,
-      overallScore,
     };
   }, [data]);
 
@@ -491,57 +438,93 @@ export function PDFAnalysisResults({ data, onReset }: PDFAnalysisResultsProps) {
               </div>
             </div>
 
-            {/* Slide Grid */}
-            <div>
-              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Slide Overview</h4>
-              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                {analysis.slideStats.map((slide) => (
-                  <button
-                    key={slide.pageNumber}
-                    onClick={() => setSelectedSlide(slide.pageNumber === selectedSlide ? null : slide.pageNumber)}
-                    className={`p-4 rounded-sm border text-left transition-all ${
-                      selectedSlide === slide.pageNumber
-                        ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/10"
-                        : "border-[var(--border-primary)] bg-[var(--bg-tertiary)] hover:border-[var(--border-focus)]"
-                    }`}
-                  >
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="font-medium text-[var(--text-primary)]">Slide {slide.pageNumber}</span>
-                      <span className={`text-xs px-2 py-0.5 rounded-full ${
-                        slide.wordCount >= 20 && slide.wordCount <= 50
-                          ? "bg-green-500/20 text-green-400"
-                          : slide.wordCount < 20
-                            ? "bg-yellow-500/20 text-yellow-400"
-                            : "bg-orange-500/20 text-orange-400"
-                      }`}>
-                        {slide.wordCount} words
-                      </span>
-                    </div>
-                    <div className="text-xs text-[var(--text-tertiary)] space-y-1">
-                      <div className="flex justify-between">
-                        <span>Lines:</span>
-                        <span>{slide.lineCount}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span>Bullets:</span>
-                        <span>{slide.bulletPoints}</span>
-                      </div>
-                    </div>
-                  </button>
-                ))}
-              </div>
-            </div>
+            {isRenderingSlides && (
+              <p className="text-sm text-[var(--text-tertiary)]">Rendering slide previews...</p>
+            )}
+            {slideImagesError && (
+              <p className="text-sm text-[var(--text-tertiary)]">{slideImagesError}</p>
+            )}
 
-            {/* Selected Slide Content */}
-            {selectedSlide && (
-              <div className="p-4 bg-[var(--accent-primary)]/10 rounded-sm border border-[var(--accent-primary)]/30">
-                <h5 className="font-medium text-[var(--text-primary)] mb-3">
-                  Slide {selectedSlide} Content
-                </h5>
-                <div className="p-4 bg-[var(--bg-tertiary)] rounded-sm text-[var(--text-secondary)] text-sm whitespace-pre-wrap max-h-64 overflow-y-auto">
-                  {analysis.slideStats.find((s) => s.pageNumber === selectedSlide)?.text || "No content"}
+            {/* AI critique when the pipeline provided one; heuristic slide grid otherwise */}
+            {data.deck && data.deck.perSlide.length > 0 ? (
+              <SlideCritiqueAccordion
+                deck={data.deck}
+                slideStats={analysis.slideStats}
+                images={slideImages}
+                onOpenSlide={setViewerIndex}
+              />
+            ) : (
+              <>
+                {/* Slide Grid */}
+                <div>
+                  <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Slide Overview</h4>
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                    {analysis.slideStats.map((slide) => (
+                      <button
+                        key={slide.pageNumber}
+                        onClick={() => {
+                          if (slideImages?.[slide.pageNumber - 1]) {
+                            setViewerIndex(slide.pageNumber - 1);
+                          } else {
+                            setSelectedSlide(slide.pageNumber === selectedSlide ? null : slide.pageNumber);
+                          }
+                        }}
+                        className={`p-4 rounded-sm border text-left transition-all ${
+                          selectedSlide === slide.pageNumber
+                            ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/10"
+                            : "border-[var(--border-primary)] bg-[var(--bg-tertiary)] hover:border-[var(--border-focus)]"
+                        }`}
+                      >
+                        {slideImages?.[slide.pageNumber - 1] && (
+                          <div className="relative aspect-video mb-3 rounded-sm overflow-hidden bg-black">
+                            <Image
+                              src={slideImages[slide.pageNumber - 1]}
+                              alt={`Slide ${slide.pageNumber}`}
+                              fill
+                              unoptimized
+                              className="object-contain"
+                            />
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="font-medium text-[var(--text-primary)]">Slide {slide.pageNumber}</span>
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${
+                            slide.wordCount >= 20 && slide.wordCount <= 50
+                              ? "bg-green-500/20 text-green-400"
+                              : slide.wordCount < 20
+                                ? "bg-yellow-500/20 text-yellow-400"
+                                : "bg-orange-500/20 text-orange-400"
+                          }`}>
+                            {slide.wordCount} words
+                          </span>
+                        </div>
+                        <div className="text-xs text-[var(--text-tertiary)] space-y-1">
+                          <div className="flex justify-between">
+                            <span>Lines:</span>
+                            <span>{slide.lineCount}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Bullets:</span>
+                            <span>{slide.bulletPoints}</span>
+                          </div>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              </div>
+    
+                {/* Selected Slide Content */}
+                {selectedSlide && (
+                  <div className="p-4 bg-[var(--accent-primary)]/10 rounded-sm border border-[var(--accent-primary)]/30">
+                    <h5 className="font-medium text-[var(--text-primary)] mb-3">
+                      Slide {selectedSlide} Content
+                    </h5>
+                    <div className="p-4 bg-[var(--bg-tertiary)] rounded-sm text-[var(--text-secondary)] text-sm whitespace-pre-wrap max-h-64 overflow-y-auto">
+                      {analysis.slideStats.find((s) => s.pageNumber === selectedSlide)?.text || "No content"}
+                    </div>
+                  </div>
+                )}
+              </>
             )}
           </div>
         )}
@@ -623,6 +606,8 @@ export function PDFAnalysisResults({ data, onReset }: PDFAnalysisResultsProps) {
 
         {activeTab === "insights" && (
           <div className="space-y-6">
+            <PitchContextSummary context={context ?? data.context} />
+
             {/* Overall Summary Section */}
             <div className="relative overflow-hidden rounded bg-gradient-to-br from-[var(--accent-primary)]/20 via-purple-500/10 to-[var(--accent-primary)]/20 border border-[var(--accent-primary)]/30 p-6">
               <div className="absolute top-0 right-0 w-32 h-32 bg-gradient-to-br from-[var(--accent-primary)]/20 to-transparent rounded-full blur-2xl -translate-y-1/2 translate-x-1/2" />
@@ -636,7 +621,7 @@ export function PDFAnalysisResults({ data, onReset }: PDFAnalysisResultsProps) {
                   <h4 className="text-lg font-semibold text-[var(--text-primary)]">AI Analysis</h4>
                 </div>
                 <div className="text-[var(--text-secondary)] text-sm leading-relaxed whitespace-pre-wrap max-h-48 overflow-y-auto">
-                  {data.summary}
+                  {data.deck?.overallSummary || data.summary}
                 </div>
               </div>
             </div>
@@ -835,6 +820,17 @@ export function PDFAnalysisResults({ data, onReset }: PDFAnalysisResultsProps) {
           </div>
         )}
       </div>
+
+      {viewerIndex !== null && slideImages && slideImages.length > 0 && (
+        <SlideViewer
+          images={slideImages}
+          index={Math.min(viewerIndex, slideImages.length - 1)}
+          slideStats={analysis.slideStats}
+          deck={data.deck}
+          onIndexChange={setViewerIndex}
+          onClose={() => setViewerIndex(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,33 @@
+"use client";
+
+import type { PitchContext } from "@/app/services/api";
+import { audiencePhrase, formatTimeLimit } from "@/app/services/pitchContext";
+
+interface PitchContextSummaryProps {
+  context: PitchContext | null | undefined;
+}
+
+// One line describing what the feedback was tailored to
+export function PitchContextSummary({ context }: PitchContextSummaryProps) {
+  const audience = audiencePhrase(context?.audienceType ?? null);
+  if (!context || (!audience && !context.timeLimitSec && !context.goal)) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-[var(--text-secondary)]">
+      <svg className="w-4 h-4 text-[var(--accent-primary)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+      </svg>
+      <span>Feedback tailored for {audience ?? "your pitch"}</span>
+      {context.timeLimitSec && (
+        <span className="text-xs px-2 py-0.5 rounded-full bg-[var(--bg-tertiary)] text-[var(--text-tertiary)]">
+          {formatTimeLimit(context.timeLimitSec)} limit
+        </span>
+      )}
+      {context.goal && (
+        <span className="text-xs px-2 py-0.5 rounded-full bg-[var(--bg-tertiary)] text-[var(--text-tertiary)]">
+          Goal: {context.goal}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { createContext, useContext, useState, useRef, useCallback, type ReactNode } from "react";
+
+interface PlaybackContextType {
+  currentTime: number;
+  hasMedia: boolean;
+  seek: (time: number) => void;
+  reportTime: (time: number) => void;
+  attachMedia: (element: HTMLMediaElement | null) => void;
+}
+
+const PlaybackContext = createContext<PlaybackContextType | undefined>(undefined);
+
+interface PlaybackProviderProps {
+  children: ReactNode;
+}
+
+// Shares one media element's playback position between the player and the
+// result views, so transcripts and charts can seek it and follow along.
+export function PlaybackProvider({ children }: PlaybackProviderProps) {
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [hasMedia, setHasMedia] = useState(false);
+
+  const attachMedia = useCallback((element: HTMLMediaElement | null) => {
+    mediaRef.current = element;
+    setHasMedia(element !== null);
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    const media = mediaRef.current;
+    if (!media || !Number.isFinite(time)) return;
+    const clamped = Math.max(0, Number.isFinite(media.duration) ? Math.min(time, media.duration) : time);
+    media.currentTime = clamped;
+    setCurrentTime(clamped);
+  }, []);
+
+  return (
+    <PlaybackContext.Provider value={{ currentTime, hasMedia, seek, reportTime: setCurrentTime, attachMedia }}>
+      {children}
+    </PlaybackContext.Provider>
+  );
+}
+
+export function usePlayback() {
+  const context = useContext(PlaybackContext);
+  if (context === undefined) {
+    throw new Error("usePlayback must be used within a PlaybackProvider");
+  }
+  return context;
+}
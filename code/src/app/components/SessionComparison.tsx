@@ -0,0 +1,236 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { AudioAnalysisResponse, Insights } from "@/app/services/api";
+import { calculateSpeechMetrics } from "@/app/services/metrics";
+
+export interface ComparisonAttempt {
+  id: string;
+  label: string;
+  result: AudioAnalysisResponse;
+}
+
+interface SessionComparisonProps {
+  attempts: ComparisonAttempt[]; // oldest first
+}
+
+type InsightKey = Exclude<keyof Insights, "overall_verdict" | "audience_fit">;
+
+type MetricKey =
+  | "overallScore"
+  | "wpm"
+  | "fillerPercentage"
+  | "loudnessVariance"
+  | "idealPercentage"
+  | InsightKey;
+
+interface MetricDefinition {
+  key: MetricKey;
+  label: string;
+  better: "higher" | "lower" | null; // null when neither direction is an improvement
+  decimals: number;
+  unit?: "%" | "/5";
+}
+
+const SPEECH_METRICS: MetricDefinition[] = [
+  { key: "overallScore", label: "Overall Score", better: "higher", decimals: 0 },
+  { key: "wpm", label: "Words per Minute", better: null, decimals: 0 },
+  { key: "fillerPercentage", label: "Filler Words", better: "lower", decimals: 1, unit: "%" },
+  { key: "loudnessVariance", label: "Loudness Variance", better: "lower", decimals: 1 },
+  { key: "idealPercentage", label: "Ideal Pace", better: "higher", decimals: 0, unit: "%" },
+];
+
+const INSIGHT_METRICS: MetricDefinition[] = [
+  { key: "clarity", label: "Clarity", better: "higher", decimals: 0, unit: "/5" },
+  { key: "pacing", label: "Pacing", better: "higher", decimals: 0, unit: "/5" },
+  { key: "filler_words", label: "Filler Words", better: "higher", decimals: 0, unit: "/5" },
+  { key: "structure", label: "Structure", better: "higher", decimals: 0, unit: "/5" },
+  { key: "engagement", label: "Engagement", better: "higher", decimals: 0, unit: "/5" },
+];
+
+const COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#06b6d4", "#a855f7"];
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "var(--bg-elevated)",
+  border: "1px solid var(--border-primary)",
+  borderRadius: "8px",
+  color: "var(--text-primary)",
+};
+
+type AttemptValues = { label: string } & Record<MetricKey, number | null>;
+
+const formatValue = (metric: MetricDefinition, value: number): string =>
+  `${value.toFixed(metric.decimals)}${metric.unit ?? ""}`;
+
+// Percentages change by percentage points, so the unit is spelled out for deltas
+const formatDelta = (metric: MetricDefinition, delta: number): string => {
+  const sign = delta > 0 ? "+" : delta < 0 ? "−" : "±";
+  return `${sign}${Math.abs(delta).toFixed(metric.decimals)}${metric.unit === "%" ? " pts" : ""}`;
+};
+
+const getDeltaColor = (metric: MetricDefinition, delta: number): string => {
+  if (delta === 0 || metric.better === null) return "text-[var(--text-tertiary)]";
+  const improved = metric.better === "higher" ? delta > 0 : delta < 0;
+  return improved ? "text-green-400" : "text-red-400";
+};
+
+function DeltaCell({ metric, from, to }: { metric: MetricDefinition; from: number | null; to: number | null }) {
+  if (from === null || to === null) return <span className="text-[var(--text-tertiary)]">—</span>;
+  const delta = Number((to - from).toFixed(metric.decimals));
+  return <span className={getDeltaColor(metric, delta)}>{formatDelta(metric, delta)}</span>;
+}
+
+function MetricTable({ title, metrics, rows }: { title: string; metrics: MetricDefinition[]; rows: AttemptValues[] }) {
+  const first = rows[0];
+  const latest = rows[rows.length - 1];
+
+  return (
+    <div className="bg-[var(--bg-secondary)] rounded border border-[var(--border-primary)] overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[var(--border-primary)] text-[var(--text-tertiary)]">
+            <th className="text-left font-medium p-3">{title}</th>
+            {rows.map((row, i) => (
+              <th key={i} className="text-right font-medium p-3 whitespace-nowrap">{row.label}</th>
+            ))}
+            <th className="text-right font-medium p-3 whitespace-nowrap">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.map((metric) => (
+            <tr key={metric.key} className="border-b border-[var(--border-primary)] last:border-0">
+              <td className="p-3 text-[var(--text-secondary)] whitespace-nowrap">{metric.label}</td>
+              {rows.map((row, i) => {
+                const value = row[metric.key];
+                return (
+                  <td key={i} className="p-3 text-right">
+                    <p className="font-semibold text-[var(--text-primary)]">
+                      {value === null ? "—" : formatValue(metric, value)}
+                    </p>
+                    {i > 0 && (
+                      <p className="text-xs">
+                        <DeltaCell metric={metric} from={rows[i - 1][metric.key]} to={value} />
+                      </p>
+                    )}
+                  </td>
+                );
+              })}
+              <td className="p-3 text-right font-semibold">
+                <DeltaCell metric={metric} from={first[metric.key]} to={latest[metric.key]} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function TrendChart({ metrics, rows, domain }: { metrics: MetricDefinition[]; rows: AttemptValues[]; domain: [number, number | "auto"] }) {
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" stroke="var(--border-secondary)" />
+          <XAxis dataKey="label" tick={{ fill: "var(--text-tertiary)", fontSize: 11 }} />
+          <YAxis tick={{ fill: "var(--text-tertiary)", fontSize: 11 }} domain={domain} />
+          <Tooltip contentStyle={TOOLTIP_STYLE} />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          {metrics.map((metric, i) => (
+            <Line
+              key={metric.key}
+              type="monotone"
+              dataKey={metric.key}
+              name={metric.label}
+              stroke={COLORS[i % COLORS.length]}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export function SessionComparison({ attempts }: SessionComparisonProps) {
+  const rows = useMemo<AttemptValues[]>(
+    () =>
+      attempts.map((attempt) => {
+        const metrics = calculateSpeechMetrics(attempt.result);
+        const insights = attempt.result.insights;
+        return {
+          label: attempt.label,
+          overallScore: metrics.overallScore,
+          wpm: metrics.wpm,
+          fillerPercentage: metrics.fillerPercentage,
+          loudnessVariance: metrics.loudnessVariance,
+          idealPercentage: metrics.idealPercentage,
+          clarity: insights?.clarity?.score ?? null,
+          pacing: insights?.pacing?.score ?? null,
+          filler_words: insights?.filler_words?.score ?? null,
+          structure: insights?.structure?.score ?? null,
+          engagement: insights?.engagement?.score ?? null,
+        };
+      }),
+    [attempts],
+  );
+
+  if (rows.length < 2) {
+    return (
+      <p className="text-sm text-[var(--text-tertiary)]">
+        Select at least two speech analyses to compare them.
+      </p>
+    );
+  }
+
+  const first = rows[0];
+  const latest = rows[rows.length - 1];
+  const scoreDelta = latest.overallScore !== null && first.overallScore !== null
+    ? latest.overallScore - first.overallScore
+    : 0;
+
+  return (
+    <div className="space-y-8">
+      {/* Headline */}
+      <div className="bg-[var(--bg-secondary)] rounded p-6 border border-[var(--border-primary)] flex items-center justify-between">
+        <div>
+          <p className="text-sm text-[var(--text-tertiary)]">Overall score across {rows.length} attempts</p>
+          <p className="text-3xl font-bold text-[var(--text-primary)]">
+            {first.overallScore} → {latest.overallScore}
+          </p>
+        </div>
+        <p className={`text-2xl font-semibold ${getDeltaColor(SPEECH_METRICS[0], scoreDelta)}`}>
+          {formatDelta(SPEECH_METRICS[0], scoreDelta)}
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="text-lg font-medium text-[var(--text-primary)]">Delivery Metrics</h4>
+        <MetricTable title="Metric" metrics={SPEECH_METRICS} rows={rows} />
+        <TrendChart
+          metrics={SPEECH_METRICS.filter((metric) => metric.key !== "loudnessVariance")}
+          rows={rows}
+          domain={[0, "auto"]}
+        />
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="text-lg font-medium text-[var(--text-primary)]">AI Insight Scores</h4>
+        <MetricTable title="Insight" metrics={INSIGHT_METRICS} rows={rows} />
+        <TrendChart metrics={INSIGHT_METRICS} rows={rows} domain={[0, 5]} />
+      </div>
+    </div>
+  );
+}
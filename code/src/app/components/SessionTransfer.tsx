@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { getSessionId, importSessionId } from "@/app/services/session";
+
+export function SessionTransfer() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sessionId, setSessionId] = useState("");
+  const [importValue, setImportValue] = useState("");
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const handleToggle = () => {
+    if (!isOpen) setSessionId(getSessionId());
+    setMessage(null);
+    setIsOpen(!isOpen);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(sessionId);
+      setMessage({ type: "success", text: "Session ID copied to clipboard" });
+    } catch {
+      setMessage({ type: "error", text: "Couldn't access the clipboard. Copy the ID manually." });
+    }
+  };
+
+  const handleImport = () => {
+    try {
+      setSessionId(importSessionId(importValue));
+      setImportValue("");
+      setMessage({ type: "success", text: "Session imported. Your history from the other browser is now linked here." });
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Import failed" });
+    }
+  };
+
+  return (
+    <div className="text-center">
+      <button
+        onClick={handleToggle}
+        className="text-xs text-[var(--text-primary)]/40 hover:text-[var(--accent-blue)] transition-colors"
+      >
+        {isOpen ? "Hide session settings" : "Move your history to another browser"}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 max-w-md mx-auto text-left space-y-4 p-4 rounded-xl bg-[var(--text-primary)]/5 border border-[var(--text-primary)]/10 animate-fade-in">
+          <div>
+            <p className="text-sm font-medium text-[var(--text-primary)]/60 mb-2">Your session ID</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 min-w-0 truncate px-3 py-2 rounded-lg bg-[var(--text-primary)]/5 text-sm text-[var(--text-primary)]">
+                {sessionId}
+              </code>
+              <button
+                onClick={handleCopy}
+                className="px-3 py-2 rounded-lg text-sm font-medium text-[var(--text-primary)] bg-[var(--text-primary)]/10 hover:bg-[var(--accent-blue-subtle)] hover:text-[var(--accent-blue)] transition-colors"
+              >
+                Copy
+              </button>
+            </div>
+            <p className="text-xs text-[var(--text-primary)]/40 mt-2">
+              Paste this ID into another browser to continue with the same history.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="session-import" className="block text-sm font-medium text-[var(--text-primary)]/60 mb-2">
+              Import a session ID
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                id="session-import"
+                type="text"
+                value={importValue}
+                onChange={(e) => setImportValue(e.target.value)}
+                placeholder="xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"
+                className="wizard-input flex-1 min-w-0"
+              />
+              <button
+                onClick={handleImport}
+                disabled={!importValue.trim()}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  importValue.trim()
+                    ? "bg-[var(--accent-primary)] text-[var(--bg-primary)] hover:bg-[var(--accent-primary-hover)]"
+                    : "bg-[var(--text-primary)]/10 text-[var(--text-primary)]/30 cursor-not-allowed"
+                }`}
+              >
+                Import
+              </button>
+            </div>
+          </div>
+
+          {message && (
+            <p className={`text-sm ${message.type === "success" ? "text-green-400" : "text-red-400"}`}>
+              {message.text}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
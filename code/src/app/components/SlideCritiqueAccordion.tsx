@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import type { DeckCritique, DeckIssueType } from "@/app/services/api";
+import type { SlideStats } from "@/app/services/metrics";
+
+interface SlideCritiqueAccordionProps {
+  deck: DeckCritique;
+  slideStats: SlideStats[];
+  images?: string[] | null;
+  onOpenSlide?: (index: number) => void;
+}
+
+export const ISSUE_STYLES: Record<DeckIssueType, string> = {
+  clarity: "bg-blue-500/20 text-blue-400",
+  density: "bg-orange-500/20 text-orange-400",
+  story: "bg-purple-500/20 text-purple-400",
+  visual: "bg-cyan-500/20 text-cyan-400",
+};
+
+export function SlideCritiqueAccordion({ deck, slideStats, images, onOpenSlide }: SlideCritiqueAccordionProps) {
+  const [expandedSlide, setExpandedSlide] = useState<number | null>(deck.perSlide[0]?.slideIndex ?? null);
+  const [showTextFor, setShowTextFor] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-6">
+      {/* Top Fixes */}
+      {deck.topFixes.length > 0 && (
+        <div>
+          <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Top Fixes</h4>
+          <ol className="space-y-3">
+            {deck.topFixes.map((fix, index) => (
+              <li key={index} className="flex gap-3 p-4 rounded-sm bg-[var(--bg-tertiary)]">
+                <span className="w-6 h-6 shrink-0 rounded-full bg-[var(--accent-primary)] text-[var(--bg-primary)] text-sm font-semibold flex items-center justify-center">
+                  {index + 1}
+                </span>
+                <div>
+                  <p className="font-medium text-[var(--text-primary)]">{fix.title}</p>
+                  <p className="text-sm text-[var(--text-secondary)] mt-1">{fix.why}</p>
+                  <p className="text-sm text-[var(--text-tertiary)] mt-1">
+                    <span className="font-medium text-[var(--text-secondary)]">How: </span>
+                    {fix.how}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Per-slide critique */}
+      <div>
+        <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Slide-by-Slide Feedback</h4>
+        <div className="space-y-2">
+          {deck.perSlide.map((slide) => {
+            const pageNumber = slide.slideIndex + 1;
+            const stats = slideStats.find((s) => s.pageNumber === pageNumber);
+            const isExpanded = expandedSlide === slide.slideIndex;
+
+            return (
+              <div
+                key={slide.slideIndex}
+                className={`rounded-sm border transition-colors ${
+                  isExpanded
+                    ? "border-[var(--accent-primary)]/50 bg-[var(--accent-primary)]/5"
+                    : "border-[var(--border-primary)] bg-[var(--bg-tertiary)]"
+                }`}
+              >
+                <button
+                  onClick={() => setExpandedSlide(isExpanded ? null : slide.slideIndex)}
+                  className="w-full flex items-center gap-3 p-4 text-left"
+                >
+                  <span className="font-medium text-[var(--text-primary)] shrink-0">Slide {pageNumber}</span>
+                  <span className="flex-1 min-w-0 truncate text-sm text-[var(--text-secondary)]">
+                    {slide.title ?? slide.summary}
+                  </span>
+                  {slide.issues.length > 0 && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-400 shrink-0">
+                      {slide.issues.length} {slide.issues.length === 1 ? "issue" : "issues"}
+                    </span>
+                  )}
+                  {stats && (
+                    <span className="text-xs text-[var(--text-tertiary)] shrink-0">{stats.wordCount} words</span>
+                  )}
+                  <svg
+                    className={`w-4 h-4 text-[var(--text-tertiary)] shrink-0 transition-transform ${isExpanded ? "rotate-180" : ""}`}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+
+                {isExpanded && (
+                  <div className="px-4 pb-4 space-y-4">
+                    {images?.[slide.slideIndex] && (
+                      <button
+                        onClick={() => onOpenSlide?.(slide.slideIndex)}
+                        title="Open slide viewer"
+                        className="relative block w-full max-w-sm aspect-video rounded-sm overflow-hidden border border-[var(--border-primary)] bg-black hover:border-[var(--accent-primary)] transition-colors"
+                      >
+                        <Image
+                          src={images[slide.slideIndex]}
+                          alt={`Slide ${pageNumber}`}
+                          fill
+                          unoptimized
+                          className="object-contain"
+                        />
+                      </button>
+                    )}
+
+                    <p className="text-sm text-[var(--text-secondary)]">{slide.summary}</p>
+
+                    {slide.issues.length > 0 && (
+                      <div>
+                        <h5 className="text-sm font-medium text-[var(--text-primary)] mb-2">Issues</h5>
+                        <ul className="space-y-2">
+                          {slide.issues.map((issue, index) => (
+                            <li key={index} className="flex items-start gap-2 text-sm">
+                              <span className={`text-xs px-2 py-0.5 rounded-full capitalize shrink-0 ${ISSUE_STYLES[issue.type]}`}>
+                                {issue.type}
+                              </span>
+                              <span className="text-[var(--text-secondary)]">{issue.detail}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {slide.rewriteSuggestions.length > 0 && (
+                      <div>
+                        <h5 className="text-sm font-medium text-[var(--text-primary)] mb-2">Suggested Rewrites</h5>
+                        <div className="space-y-3">
+                          {slide.rewriteSuggestions.map((suggestion, index) => (
+                            <div key={index} className="p-3 rounded-sm bg-[var(--bg-secondary)] text-sm space-y-1">
+                              {suggestion.before && (
+                                <p className="text-red-400/80 line-through">{suggestion.before}</p>
+                              )}
+                              <p className="text-green-400">{suggestion.after}</p>
+                              <p className="text-xs text-[var(--text-tertiary)]">{suggestion.rationale}</p>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {stats && (
+                      <div>
+                        <button
+                          onClick={() => setShowTextFor(showTextFor === pageNumber ? null : pageNumber)}
+                          className="text-xs text-[var(--accent-primary)] hover:underline"
+                        >
+                          {showTextFor === pageNumber ? "Hide slide text" : "Show slide text"}
+                        </button>
+                        {showTextFor === pageNumber && (
+                          <div className="mt-2 p-3 bg-[var(--bg-secondary)] rounded-sm text-[var(--text-secondary)] text-sm whitespace-pre-wrap max-h-48 overflow-y-auto">
+                            {stats.text || "No content"}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
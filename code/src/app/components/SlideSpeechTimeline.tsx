@@ -0,0 +1,191 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  ReferenceArea,
+  ReferenceLine,
+} from "recharts";
+import type { AudioAnalysisResponse, PDFAnalysisResponse } from "@/app/services/api";
+import { alignSlidesToSpeech } from "@/app/services/slideAlignment";
+import { usePlayback } from "@/app/components/PlaybackContext";
+
+interface SlideSpeechTimelineProps {
+  audioResult: AudioAnalysisResponse;
+  pdfResult: PDFAnalysisResponse;
+}
+
+const BAND_COLORS = ["#3b82f6", "#8b5cf6"];
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+export function SlideSpeechTimeline({ audioResult, pdfResult }: SlideSpeechTimelineProps) {
+  const { currentTime, hasMedia, seek } = usePlayback();
+
+  const alignment = useMemo(() => alignSlidesToSpeech(audioResult, pdfResult), [audioResult, pdfResult]);
+
+  const spmData = useMemo(() => {
+    const data = (audioResult.timestamps || []).map(([time, spm]) => ({
+      time: Math.round(time * 10) / 10,
+      spm: Math.round(spm),
+    }));
+    return data.length > 100 ? data.filter((_, i) => i % Math.ceil(data.length / 100) === 0) : data;
+  }, [audioResult]);
+
+  const { segments, timePerSlide, unmentioned } = alignment;
+  if (segments.length === 0) return null;
+
+  const duration = segments[segments.length - 1].end;
+  const longest = Math.max(...timePerSlide.map((slide) => slide.seconds), 1);
+  const toPercent = (seconds: number): number => (duration > 0 ? Math.min(100, (seconds / duration) * 100) : 0);
+  const currentSegment = segments.find((segment) => currentTime >= segment.start && currentTime < segment.end);
+
+  const handleChartSeek = (label: string | number | undefined) => {
+    const time = Number(label);
+    if (label !== undefined && Number.isFinite(time)) seek(time);
+  };
+
+  const seekToSlide = (pageNumber: number) => {
+    const segment = segments.find((s) => s.pageNumber === pageNumber);
+    if (segment) seek(segment.start);
+  };
+
+  return (
+    <div className="bg-[var(--bg-secondary)] rounded border border-[var(--border-primary)] p-6 space-y-6">
+      <div>
+        <h4 className="text-lg font-medium text-[var(--text-primary)] mb-2">Slides Over Time</h4>
+        <p className="text-sm text-[var(--text-tertiary)] mb-4">
+          Estimated from matching what you said against each slide&apos;s text. Click a slide to jump to it.
+        </p>
+
+        {/* Slide bands */}
+        <div className="relative h-8 rounded-sm overflow-hidden bg-[var(--bg-tertiary)]">
+          {segments.map((segment, index) => (
+            <button
+              key={`${segment.pageNumber}-${segment.start}`}
+              onClick={() => seek(segment.start)}
+              title={`Slide ${segment.pageNumber}: ${formatDuration(segment.start)} – ${formatDuration(segment.end)}`}
+              className={`absolute top-0 bottom-0 border-r border-[var(--bg-secondary)] text-xs font-medium text-white truncate transition-opacity hover:opacity-100 ${
+                currentSegment === segment ? "opacity-100" : "opacity-70"
+              }`}
+              style={{
+                left: `${toPercent(segment.start)}%`,
+                width: `${toPercent(segment.end - segment.start)}%`,
+                backgroundColor: BAND_COLORS[index % BAND_COLORS.length],
+              }}
+            >
+              {segment.pageNumber}
+            </button>
+          ))}
+          {hasMedia && currentTime > 0 && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none"
+              style={{ left: `${toPercent(currentTime)}%` }}
+            />
+          )}
+        </div>
+
+        <div className="h-64 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart
+              data={spmData}
+              margin={{ top: 5, right: 0, bottom: 5, left: 0 }}
+              onClick={(state) => handleChartSeek(state.activeLabel)}
+              style={{ cursor: hasMedia ? "pointer" : undefined }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--border-secondary)" />
+              {segments.map((segment, index) => (
+                <ReferenceArea
+                  key={`${segment.pageNumber}-${segment.start}`}
+                  x1={segment.start}
+                  x2={segment.end}
+                  fill={BAND_COLORS[index % BAND_COLORS.length]}
+                  fillOpacity={0.08}
+                  ifOverflow="hidden"
+                />
+              ))}
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={[0, duration]}
+                tick={{ fill: "var(--text-tertiary)", fontSize: 11 }}
+              />
+              <YAxis hide domain={[0, "auto"]} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "var(--bg-elevated)",
+                  border: "1px solid var(--border-primary)",
+                  borderRadius: "8px",
+                  color: "var(--text-primary)",
+                }}
+                formatter={(value) => [`${value ?? 0} SPM`, "Pace"]}
+                labelFormatter={(label) => {
+                  const time = Number(label);
+                  const segment = segments.find((s) => time >= s.start && time < s.end);
+                  return segment ? `${time}s · Slide ${segment.pageNumber}` : `${time}s`;
+                }}
+              />
+              <Area type="monotone" dataKey="spm" stroke={BAND_COLORS[0]} strokeWidth={2} fill={BAND_COLORS[0]} fillOpacity={0.15} />
+              {hasMedia && currentTime > 0 && (
+                <ReferenceLine x={currentTime} stroke="var(--accent-blue)" strokeWidth={2} />
+              )}
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Time per slide */}
+      <div>
+        <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Time per Slide</h4>
+        <div className="space-y-2">
+          {timePerSlide.map((slide) => (
+            <button
+              key={slide.pageNumber}
+              onClick={() => seekToSlide(slide.pageNumber)}
+              disabled={slide.seconds === 0}
+              className="w-full flex items-center gap-3 text-sm text-left disabled:cursor-default"
+            >
+              <span className="w-16 shrink-0 text-[var(--text-secondary)]">Slide {slide.pageNumber}</span>
+              <span className="flex-1 h-2 rounded-full bg-[var(--bg-tertiary)] overflow-hidden">
+                <span
+                  className="block h-full rounded-full bg-[var(--accent-primary)]"
+                  style={{ width: `${(slide.seconds / longest) * 100}%` }}
+                />
+              </span>
+              <span className="w-12 shrink-0 text-right text-[var(--text-tertiary)]">
+                {slide.seconds > 0 ? formatDuration(slide.seconds) : "—"}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Slides that never came up */}
+      {unmentioned.length > 0 && (
+        <div className="p-4 rounded-sm bg-yellow-500/10 border border-yellow-500/30">
+          <h5 className="font-medium text-yellow-400 mb-1">Not mentioned in your talk</h5>
+          <p className="text-sm text-[var(--text-secondary)] mb-3">
+            Nothing you said matched these slides. Either cover them out loud or consider cutting them.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {unmentioned.map((pageNumber) => (
+              <span key={pageNumber} className="text-xs px-2 py-1 rounded-full bg-yellow-500/20 text-yellow-400">
+                Slide {pageNumber}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect } from "react";
+import Image from "next/image";
+import type { DeckCritique } from "@/app/services/api";
+import type { SlideStats } from "@/app/services/metrics";
+import { ISSUE_STYLES } from "@/app/components/SlideCritiqueAccordion";
+
+interface SlideViewerProps {
+  images: string[];
+  index: number; // 0-based
+  slideStats: SlideStats[];
+  deck?: DeckCritique;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+export function SlideViewer({ images, index, slideStats, deck, onIndexChange, onClose }: SlideViewerProps) {
+  const slideCount = images.length;
+  const pageNumber = index + 1;
+  const critique = deck?.perSlide.find((slide) => slide.slideIndex === index);
+  const stats = slideStats.find((s) => s.pageNumber === pageNumber);
+
+  // Keyboard navigation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      } else if (e.key === "ArrowRight" || e.key === "ArrowDown") {
+        e.preventDefault();
+        onIndexChange(Math.min(slideCount - 1, index + 1));
+      } else if (e.key === "ArrowLeft" || e.key === "ArrowUp") {
+        e.preventDefault();
+        onIndexChange(Math.max(0, index - 1));
+      } else if (e.key === "Home") {
+        onIndexChange(0);
+      } else if (e.key === "End") {
+        onIndexChange(slideCount - 1);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [index, slideCount, onIndexChange, onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/85 flex flex-col animate-fade-in"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Slide ${pageNumber} of ${slideCount}`}
+      onClick={onClose}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-6 py-4 text-white" onClick={(e) => e.stopPropagation()}>
+        <span className="font-medium">
+          Slide {pageNumber} <span className="text-white/50">of {slideCount}</span>
+        </span>
+        <div className="flex items-center gap-4">
+          <span className="hidden md:inline text-xs text-white/40">← → to navigate · Esc to close</span>
+          <button onClick={onClose} title="Close" className="p-2 rounded-lg hover:bg-white/10 transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-4 px-6 pb-6" onClick={(e) => e.stopPropagation()}>
+        {/* Slide image */}
+        <div className="relative flex-1 min-h-[40vh] flex items-center">
+          <button
+            onClick={() => onIndexChange(index - 1)}
+            disabled={index === 0}
+            title="Previous slide"
+            className="absolute left-2 z-10 p-3 rounded-full bg-black/50 text-white hover:bg-black/70 disabled:opacity-30 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div className="relative w-full h-full">
+            <Image
+              src={images[index]}
+              alt={`Slide ${pageNumber}`}
+              fill
+              unoptimized
+              className="object-contain"
+            />
+          </div>
+          <button
+            onClick={() => onIndexChange(index + 1)}
+            disabled={index === slideCount - 1}
+            title="Next slide"
+            className="absolute right-2 z-10 p-3 rounded-full bg-black/50 text-white hover:bg-black/70 disabled:opacity-30 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Feedback panel */}
+        <aside className="md:w-80 shrink-0 overflow-y-auto rounded bg-[var(--bg-secondary)] border border-[var(--border-primary)] p-4 space-y-4">
+          {critique ? (
+            <>
+              <div>
+                {critique.title && (
+                  <h5 className="font-medium text-[var(--text-primary)] mb-1">{critique.title}</h5>
+                )}
+                <p className="text-sm text-[var(--text-secondary)]">{critique.summary}</p>
+              </div>
+
+              {critique.issues.length > 0 && (
+                <ul className="space-y-2">
+                  {critique.issues.map((issue, i) => (
+                    <li key={i} className="text-sm">
+                      <span className={`text-xs px-2 py-0.5 rounded-full capitalize mr-2 ${ISSUE_STYLES[issue.type]}`}>
+                        {issue.type}
+                      </span>
+                      <span className="text-[var(--text-secondary)]">{issue.detail}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {critique.rewriteSuggestions.map((suggestion, i) => (
+                <div key={i} className="p-3 rounded-sm bg-[var(--bg-tertiary)] text-sm space-y-1">
+                  {suggestion.before && <p className="text-red-400/80 line-through">{suggestion.before}</p>}
+                  <p className="text-green-400">{suggestion.after}</p>
+                  <p className="text-xs text-[var(--text-tertiary)]">{suggestion.rationale}</p>
+                </div>
+              ))}
+            </>
+          ) : (
+            <p className="text-sm text-[var(--text-tertiary)]">No AI feedback for this slide.</p>
+          )}
+
+          {stats && (
+            <div className="pt-4 border-t border-[var(--border-primary)] grid grid-cols-3 gap-2 text-center">
+              <div>
+                <p className="text-lg font-semibold text-[var(--text-primary)]">{stats.wordCount}</p>
+                <p className="text-xs text-[var(--text-tertiary)]">Words</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-[var(--text-primary)]">{stats.lineCount}</p>
+                <p className="text-xs text-[var(--text-tertiary)]">Lines</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-[var(--text-primary)]">{stats.bulletPoints}</p>
+                <p className="text-xs text-[var(--text-tertiary)]">Bullets</p>
+              </div>
+            </div>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo, useRef, useEffect, type ReactNode } from "react";
+import { useState, useMemo, type ReactNode } from "react";
 import {
   XAxis,
   YAxis,
@@ -19,17 +19,41 @@ import {
   Radar,
   AreaChart,
   Area,
+  ReferenceLine,
 } from "recharts";
-import type { AudioAnalysisResponse, WordAnalysis } from "@/app/services/api";
-import { calculateSpeedDistribution, calculateAverageSPM } from "@/app/services/api";
+import type { AudioAnalysisResponse, PitchContext, WordAnalysis } from "@/app/services/api";
+import { calculateSpeedDistribution, getVoiceClips } from "@/app/services/api";
+import { calculateSpeechMetrics, speechPerformanceData } from "@/app/services/metrics";
+import {
+  defaultFillersFor,
+  fillerWordIndexes,
+  normalizeWord,
+  type CustomFillers,
+  type FillerDictionary,
+} from "@/app/services/fillers";
+import { computeWordTimings } from "@/app/services/timing";
+import { usePlayback } from "@/app/components/PlaybackContext";
+import { CoachingEventsPanel } from "@/app/components/CoachingEventsPanel";
+import type { CoachingEvent } from "@/app/services/coachingEvents";
+import { PitchContextSummary } from "@/app/components/PitchContextSummary";
+import { TimeLimitCard } from "@/app/components/TimeLimitCard";
+import { VoiceCoachPlayer } from "@/app/components/VoiceCoachPlayer";
+import { getLanguage } from "@/app/services/languages";
+import { FillerDictionaryEditor } from "@/app/components/FillerDictionaryEditor";
 
 interface SpeechAnalysisResultsProps {
   data: AudioAnalysisResponse;
   onReset: () => void;
+  // When provided the active tab is controlled by the parent (e.g. from the URL)
+  activeTab?: TabType;
+  onTabChange?: (tab: TabType) => void;
+  context?: PitchContext | null; // falls back to the context echoed in the result
+  fillerDictionary: FillerDictionary;
+  customFillers: CustomFillers;
+  onCustomFillersChange: (custom: CustomFillers) => void;
+  coachingEvents: CoachingEvent[]; // detected with the same dictionary
 }
 
-const FILLER_WORDS = new Set(["um", "uh", "like", "so", "actually", "you know"]);
-
 const COLORS = {
   primary: "#3b82f6",
   secondary: "#60a5fa",
@@ -46,13 +70,37 @@ const COLORS = {
   },
 };
 
-type TabType = "overview" | "transcript" | "timeline" | "loudness" | "insights";
+export const SPEECH_TABS = ["overview", "transcript", "timeline", "loudness", "insights"] as const;
+
+export type TabType = (typeof SPEECH_TABS)[number];
+
+export const isSpeechTab = (value: string | null): value is TabType =>
+  SPEECH_TABS.includes(value as TabType);
 
-export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsProps) {
-  const [activeTab, setActiveTab] = useState<TabType>("overview");
+export function SpeechAnalysisResults({
+  data,
+  onReset,
+  activeTab: controlledTab,
+  onTabChange,
+  context,
+  fillerDictionary,
+  customFillers,
+  onCustomFillersChange,
+  coachingEvents,
+}: SpeechAnalysisResultsProps) {
+  const [localTab, setLocalTab] = useState<TabType>("overview");
+  const activeTab = controlledTab ?? localTab;
+  const pitchContext = context ?? data.context ?? null;
+  const { pace, strings } = getLanguage(data.language);
+  const setActiveTab = (tab: TabType) => {
+    setLocalTab(tab);
+    onTabChange?.(tab);
+  };
   const [selectedWord, setSelectedWord] = useState<WordAnalysis | null>(null);
-  const [isPlayingVerdict, setIsPlayingVerdict] = useState(false);
-  const verdictAudioRef = useRef<HTMLAudioElement | null>(null);
+  const { currentTime, hasMedia, seek } = usePlayback();
+  const [isEditingFillers, setIsEditingFillers] = useState(false);
+
+  const voiceClips = useMemo(() => getVoiceClips(data), [data]);
 
   const analysis = useMemo(() => {
     const words = data.word_analysis || [];
@@ -61,36 +109,24 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
     const loudnessData = data.loudness || [];
 
     // Calculate statistics
-    const totalWords = words.length;
-    const fillerWords = words.filter((w) => FILLER_WORDS.has(w.word.toLowerCase()));
-    const fillerCount = fillerWords.length;
-    const fillerPercentage = totalWords > 0 ? (fillerCount / totalWords) * 100 : 0;
-
-    // Speed distribution
+    const metrics = calculateSpeechMetrics(data, fillerDictionary);
+    const fillerIndexes = fillerWordIndexes(metrics.fillerMatches);
     const speedDistribution = calculateSpeedDistribution(words);
-    const avgSPM = calculateAverageSPM(words);
-
-    // Calculate duration from timestamps
-    const duration = timestamps.length > 0 ? timestamps[timestamps.length - 1][0] : 0;
-
-    // Words per minute (based on actual word count and duration)
-    const wpm = duration > 0 ? (totalWords / duration) * 60 : 0;
-
-    // Ideal percentage
-    const idealCount = speedDistribution["Ideal"];
-    const idealPercentage = totalWords > 0 ? (idealCount / totalWords) * 100 : 0;
 
     // Speed distribution for pie chart
+    const speedLabels = getLanguage(data.language).strings.speed;
     const speedPieData = [
-      { name: "Too Slow", value: speedDistribution["Too Slow"], color: COLORS.speed["Too Slow"] },
-      { name: "Ideal", value: speedDistribution["Ideal"], color: COLORS.speed["Ideal"] },
-      { name: "Fast", value: speedDistribution["Fast"], color: COLORS.speed["Fast"] },
-      { name: "Too Fast", value: speedDistribution["Too Fast"], color: COLORS.speed["Too Fast"] },
+      { name: speedLabels["Too Slow"], value: speedDistribution["Too Slow"], color: COLORS.speed["Too Slow"] },
+      { name: speedLabels["Ideal"], value: speedDistribution["Ideal"], color: COLORS.speed["Ideal"] },
+      { name: speedLabels["Fast"], value: speedDistribution["Fast"], color: COLORS.speed["Fast"] },
+      { name: speedLabels["Too Fast"], value: speedDistribution["Too Fast"], color: COLORS.speed["Too Fast"] },
     ].filter((item) => item.value > 0);
 
+    const wordTimings = computeWordTimings(words, timestamps, metrics.duration);
+
     // SPM over time data (from timestamps)
     const spmTimelineData = timestamps.map(([time, spm], index) => ({
-      time: time.toFixed(1),
+      time: Math.round(time * 10) / 10,
       spm: Math.round(spm),
       index,
     }));
@@ -102,7 +138,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
 
     // Loudness over time data
     const loudnessTimelineData = loudnessData.map(([time, db]) => ({
-      time: time.toFixed(1),
+      time: Math.round(time * 10) / 10,
       db: Math.round(db * 10) / 10,
     }));
 
@@ -111,24 +147,11 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
       ? loudnessTimelineData.filter((_, i) => i % Math.ceil(loudnessTimelineData.length / 200) === 0)
       : loudnessTimelineData;
 
-    // Average loudness
-    const avgLoudness = loudnessData.length > 0
-      ? loudnessData.reduce((sum, [, db]) => sum + db, 0) / loudnessData.length
-      : 0;
-
-    // Loudness variance (for consistency metric)
-    const loudnessVariance = loudnessData.length > 0
-      ? Math.sqrt(
-          loudnessData.reduce((sum, [, db]) => sum + Math.pow(db - avgLoudness, 2), 0) /
-            loudnessData.length
-        )
-      : 0;
-
     // Word frequency for bar chart
     const wordFrequency: Record<string, number> = {};
-    words.forEach((w) => {
-      const word = w.word.toLowerCase().replace(/[^a-z]/g, "");
-      if (word.length > 3 && !FILLER_WORDS.has(word)) {
+    words.forEach((w, index) => {
+      const word = normalizeWord(w.word);
+      if (word.length > 3 && !fillerIndexes.has(index)) {
         wordFrequency[word] = (wordFrequency[word] || 0) + 1;
       }
     });
@@ -138,37 +161,30 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
       .map(([word, count]) => ({ word, count }));
 
     // Radar chart data for overall performance
-    const performanceData = [
-      { metric: "Pace", value: Math.min(100, Math.round(idealPercentage)), fullMark: 100 },
-      { metric: "Fluency", value: Math.round(Math.max(0, 100 - fillerPercentage * 10)), fullMark: 100 },
-      { metric: "Consistency", value: Math.round(Math.max(0, 100 - loudnessVariance * 5)), fullMark: 100 },
-      { metric: "Volume", value: Math.round(Math.max(0, Math.min(100, 100 + avgLoudness * 2))), fullMark: 100 },
-      { metric: "Content", value: Math.min(100, Math.round((totalWords / 100) * 50 + 50)), fullMark: 100 },
-    ];
+    const performanceData = speechPerformanceData(metrics);
 
     return {
+      ...metrics,
       words,
+      fillerIndexes,
+      wordTimings,
       transcript,
       timestamps,
       loudnessData,
-      totalWords,
-      fillerCount,
-      fillerPercentage,
       speedDistribution,
-      avgSPM,
-      duration,
-      wpm,
-      idealPercentage,
       speedPieData,
       sampledSpmData,
       sampledLoudnessData,
-      avgLoudness,
-      loudnessVariance,
       topWords,
       performanceData,
-      fillerWords,
     };
-  }, [data]);
+  }, [data, fillerDictionary]);
+
+  // Clicking a chart seeks the recording to that point in time
+  const handleChartSeek = (label: string | number | undefined) => {
+    const time = Number(label);
+    if (label !== undefined && Number.isFinite(time)) seek(time);
+  };
 
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -176,38 +192,6 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-  // Play verdict audio when insights tab is selected
-  useEffect(() => {
-    if (activeTab === "insights" && data.verdict_audio && !isPlayingVerdict) {
-      const audio = new Audio(`data:audio/mpeg;base64,${data.verdict_audio}`);
-      verdictAudioRef.current = audio;
-      audio.onplay = () => setIsPlayingVerdict(true);
-      audio.onended = () => setIsPlayingVerdict(false);
-      audio.onpause = () => setIsPlayingVerdict(false);
-      audio.play().catch((err) => console.error("Verdict audio playback failed:", err));
-    }
-    return () => {
-      if (verdictAudioRef.current) {
-        verdictAudioRef.current.pause();
-        verdictAudioRef.current = null;
-      }
-    };
-  }, [activeTab, data.verdict_audio]);
-
-  const playVerdictAudio = () => {
-    if (verdictAudioRef.current) {
-      verdictAudioRef.current.currentTime = 0;
-      verdictAudioRef.current.play();
-    } else if (data.verdict_audio) {
-      const audio = new Audio(`data:audio/mpeg;base64,${data.verdict_audio}`);
-      verdictAudioRef.current = audio;
-      audio.onplay = () => setIsPlayingVerdict(true);
-      audio.onended = () => setIsPlayingVerdict(false);
-      audio.onpause = () => setIsPlayingVerdict(false);
-      audio.play().catch((err) => console.error("Verdict audio playback failed:", err));
-    }
-  };
-
   const getScoreGradient = (score: number): string => {
     if (score >= 4) return "from-green-500 to-emerald-400";
     if (score >= 3) return "from-yellow-500 to-amber-400";
@@ -242,18 +226,12 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
     }
   };
 
-  // Overall score calculation
-  const overallScore = Math.round(
-    analysis.idealPercentage * 0.35 +
-    Math.max(0, 100 - analysis.fillerPercentage * 10) * 0.25 +
-    Math.max(0, 100 - analysis.loudnessVariance * 5) * 0.2 +
-    Math.min(100, (analysis.totalWords / 100) * 50 + 50) * 0.2
-  );
+  const overallScore = analysis.overallScore;
 
   const tabs: { id: TabType; label: string; icon: ReactNode }[] = [
     {
       id: "overview",
-      label: "Overview",
+      label: strings.tabs.overview,
       icon: (
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
@@ -262,7 +240,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
     },
     {
       id: "transcript",
-      label: "Transcript",
+      label: strings.tabs.transcript,
       icon: (
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -271,7 +249,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
     },
     {
       id: "timeline",
-      label: "Pace Timeline",
+      label: strings.tabs.timeline,
       icon: (
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
@@ -280,7 +258,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
     },
     {
       id: "loudness",
-      label: "Volume Analysis",
+      label: strings.tabs.loudness,
       icon: (
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
@@ -289,7 +267,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
     },
     {
       id: "insights",
-      label: "AI Insights",
+      label: strings.tabs.insights,
       icon: (
         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
@@ -334,14 +312,14 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
             </div>
             <div>
               <h3 className="text-xl font-semibold text-[var(--text-primary)]">
-                Overall Performance Score
+                {strings.overallScore}
               </h3>
               <p className="text-[var(--text-secondary)]">
                 {overallScore >= 80
-                  ? "Excellent presentation delivery!"
+                  ? strings.scoreMessage.excellent
                   : overallScore >= 60
-                    ? "Good performance with room for improvement"
-                    : "Keep practicing to improve your delivery"}
+                    ? strings.scoreMessage.good
+                    : strings.scoreMessage.practice}
               </p>
             </div>
           </div>
@@ -352,7 +330,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
             </svg>
-            Analyze Another
+            {strings.analyzeAnother}
           </button>
         </div>
       </div>
@@ -367,7 +345,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
               </svg>
             </div>
             <div>
-              <p className="text-xs text-[var(--text-tertiary)]">Duration</p>
+              <p className="text-xs text-[var(--text-tertiary)]">{strings.duration}</p>
               <p className="text-lg font-semibold text-[var(--text-primary)]">
                 {formatDuration(analysis.duration)}
               </p>
@@ -383,7 +361,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
               </svg>
             </div>
             <div>
-              <p className="text-xs text-[var(--text-tertiary)]">Words</p>
+              <p className="text-xs text-[var(--text-tertiary)]">{strings.words}</p>
               <p className="text-lg font-semibold text-[var(--text-primary)]">
                 {analysis.totalWords}
               </p>
@@ -399,7 +377,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
               </svg>
             </div>
             <div>
-              <p className="text-xs text-[var(--text-tertiary)]">Avg SPM</p>
+              <p className="text-xs text-[var(--text-tertiary)]">{strings.avgSpm}</p>
               <p className="text-lg font-semibold text-[var(--text-primary)]">
                 {Math.round(analysis.avgSPM)}
               </p>
@@ -415,7 +393,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
               </svg>
             </div>
             <div>
-              <p className="text-xs text-[var(--text-tertiary)]">Ideal Pace</p>
+              <p className="text-xs text-[var(--text-tertiary)]">{strings.idealPace}</p>
               <p className="text-lg font-semibold text-green-400">
                 {Math.round(analysis.idealPercentage)}%
               </p>
@@ -431,7 +409,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
               </svg>
             </div>
             <div>
-              <p className="text-xs text-[var(--text-tertiary)]">Fillers</p>
+              <p className="text-xs text-[var(--text-tertiary)]">{strings.fillers}</p>
               <p className="text-lg font-semibold text-[var(--text-primary)]">
                 {analysis.fillerCount}
               </p>
@@ -462,10 +440,14 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
       <div className="bg-[var(--bg-secondary)] rounded border border-[var(--border-primary)] p-6">
         {activeTab === "overview" && (
           <div className="space-y-6">
+            {pitchContext?.timeLimitSec && (
+              <TimeLimitCard data={data} limitSec={pitchContext.timeLimitSec} />
+            )}
+
             <div className="grid md:grid-cols-2 gap-6">
               {/* Performance Radar */}
               <div>
-                <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Performance Metrics</h4>
+                <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">{strings.performanceMetrics}</h4>
                 <div className="h-64">
                   <ResponsiveContainer width="100%" height="100%">
                     <RadarChart data={analysis.performanceData}>
@@ -486,7 +468,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
 
               {/* Speed Distribution Pie */}
               <div>
-                <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Pace Distribution</h4>
+                <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">{strings.paceDistribution}</h4>
                 <div className="h-64">
                   <ResponsiveContainer width="100%" height="100%">
                     <PieChart>
@@ -522,7 +504,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
 
             {/* Speed Distribution Bar */}
             <div>
-              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Speed Breakdown</h4>
+              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">{strings.speedBreakdown}</h4>
               <div className="grid grid-cols-4 gap-3">
                 {Object.entries(analysis.speedDistribution).map(([speed, count]) => (
                   <div
@@ -535,7 +517,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                           : "border-red-500/30 bg-red-500/10"
                     }`}
                   >
-                    <p className="text-sm text-[var(--text-tertiary)]">{speed}</p>
+                    <p className="text-sm text-[var(--text-tertiary)]">{strings.speed[speed as WordAnalysis["speed"]]}</p>
                     <p className={`text-2xl font-bold ${
                       speed === "Ideal" ? "text-green-400" : speed === "Fast" ? "text-yellow-400" : "text-red-400"
                     }`}>
@@ -552,7 +534,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
             {/* Most Used Words */}
             {analysis.topWords.length > 0 && (
               <div>
-                <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Most Used Words</h4>
+                <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">{strings.mostUsedWords}</h4>
                 <div className="h-48">
                   <ResponsiveContainer width="100%" height="100%">
                     <BarChart data={analysis.topWords} layout="vertical">
@@ -575,43 +557,62 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
             )}
 
             {/* Filler Word Breakdown */}
-            {analysis.fillerCount > 0 && (
-              <div>
-                <h4 className="text-lg font-medium text-[var(--text-primary)] mb-4">Filler Word Analysis</h4>
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="text-lg font-medium text-[var(--text-primary)]">{strings.fillerAnalysis}</h4>
+                <button
+                  onClick={() => setIsEditingFillers(!isEditingFillers)}
+                  className="text-sm text-[var(--accent-primary)] hover:underline"
+                >
+                  {isEditingFillers ? strings.done : strings.customize}
+                </button>
+              </div>
+              {isEditingFillers && (
+                <div className="mb-4">
+                  <FillerDictionaryEditor
+                    custom={customFillers}
+                    onChange={onCustomFillersChange}
+                    defaults={defaultFillersFor(data.language)}
+                  />
+                </div>
+              )}
+              {analysis.fillerCount > 0 ? (
                 <div className="flex flex-wrap gap-2">
-                  {Array.from(new Set(analysis.fillerWords.map((w) => w.word.toLowerCase()))).map((word) => {
-                    const count = analysis.fillerWords.filter((w) => w.word.toLowerCase() === word).length;
+                  {Array.from(new Set(analysis.fillerMatches.map((match) => match.text))).map((text) => {
+                    const count = analysis.fillerMatches.filter((match) => match.text === text).length;
                     return (
                       <span
-                        key={word}
+                        key={text}
                         className="px-3 py-1.5 rounded-full bg-orange-500/10 text-orange-400 text-sm font-medium"
                       >
-                        &quot;{word}&quot; x{count}
+                        &quot;{text}&quot; x{count}
                       </span>
                     );
                   })}
                 </div>
-              </div>
-            )}
+              ) : (
+                <p className="text-sm text-[var(--text-tertiary)]">{strings.noFillers}</p>
+              )}
+            </div>
           </div>
         )}
 
         {activeTab === "transcript" && (
           <div className="space-y-4">
             <div className="flex items-center justify-between mb-4">
-              <h4 className="text-lg font-medium text-[var(--text-primary)]">Full Transcript</h4>
+              <h4 className="text-lg font-medium text-[var(--text-primary)]">{strings.fullTranscript}</h4>
               <div className="flex items-center gap-4 text-sm text-[var(--text-tertiary)]">
                 <span className="flex items-center gap-1">
-                  <span className="w-3 h-3 rounded bg-orange-500/30"></span> Filler
+                  <span className="w-3 h-3 rounded bg-orange-500/30"></span> {strings.fillerLegend}
                 </span>
                 <span className="flex items-center gap-1">
-                  <span className="w-3 h-3 rounded bg-green-500/30"></span> Ideal
+                  <span className="w-3 h-3 rounded bg-green-500/30"></span> {strings.speed.Ideal}
                 </span>
                 <span className="flex items-center gap-1">
-                  <span className="w-3 h-3 rounded bg-yellow-500/30"></span> Fast
+                  <span className="w-3 h-3 rounded bg-yellow-500/30"></span> {strings.speed.Fast}
                 </span>
                 <span className="flex items-center gap-1">
-                  <span className="w-3 h-3 rounded bg-red-500/30"></span> Too Slow/Fast
+                  <span className="w-3 h-3 rounded bg-red-500/30"></span> {strings.tooSlowOrFast}
                 </span>
               </div>
             </div>
@@ -619,11 +620,14 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
             <div className="p-4 bg-[var(--bg-tertiary)] rounded-sm max-h-96 overflow-y-auto">
               <div className="flex flex-wrap gap-1">
                 {analysis.words.map((word, index) => {
-                  const isFiller = FILLER_WORDS.has(word.word.toLowerCase());
+                  const isFiller = analysis.fillerIndexes.has(index);
                   return (
                     <button
                       key={index}
-                      onClick={() => setSelectedWord(word)}
+                      onClick={() => {
+                        setSelectedWord(word);
+                        if (analysis.wordTimings[index]) seek(analysis.wordTimings[index].start);
+                      }}
                       className={`px-1.5 py-0.5 rounded transition-colors ${
                         isFiller
                           ? "bg-orange-500/20 text-orange-400 hover:bg-orange-500/30"
@@ -641,19 +645,19 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
 
             {selectedWord && (
               <div className="p-4 bg-[var(--accent-primary)]/10 rounded-sm border border-[var(--accent-primary)]/30">
-                <h5 className="font-medium text-[var(--text-primary)] mb-2">Word Details</h5>
+                <h5 className="font-medium text-[var(--text-primary)] mb-2">{strings.wordDetails}</h5>
                 <div className="grid grid-cols-3 gap-4 text-sm">
                   <div>
-                    <span className="text-[var(--text-tertiary)]">Word:</span>
+                    <span className="text-[var(--text-tertiary)]">{strings.word}:</span>
                     <span className="ml-2 text-[var(--text-primary)] font-medium">{selectedWord.word}</span>
                   </div>
                   <div>
-                    <span className="text-[var(--text-tertiary)]">Speed:</span>
+                    <span className="text-[var(--text-tertiary)]">{strings.speedLabel}:</span>
                     <span className={`ml-2 font-medium ${
                       selectedWord.speed === "Ideal" ? "text-green-400" :
                       selectedWord.speed === "Fast" ? "text-yellow-400" : "text-red-400"
                     }`}>
-                      {selectedWord.speed}
+                      {strings.speed[selectedWord.speed]}
                     </span>
                   </div>
                   <div>
@@ -668,7 +672,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
 
             {/* Plain transcript */}
             <div className="mt-6">
-              <h5 className="font-medium text-[var(--text-primary)] mb-2">Plain Text</h5>
+              <h5 className="font-medium text-[var(--text-primary)] mb-2">{strings.plainText}</h5>
               <div className="p-4 bg-[var(--bg-tertiary)] rounded-sm text-[var(--text-secondary)] leading-relaxed">
                 {analysis.transcript}
               </div>
@@ -679,13 +683,25 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
         {activeTab === "timeline" && (
           <div className="space-y-6">
             <div>
-              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-2">Speaking Pace Over Time</h4>
+              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-2">{strings.coachingMoments}</h4>
+              <p className="text-sm text-[var(--text-tertiary)] mb-4">
+                {strings.coachingMomentsHint}
+              </p>
+              <CoachingEventsPanel events={coachingEvents} duration={analysis.duration} />
+            </div>
+
+            <div>
+              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-2">{strings.paceOverTime}</h4>
               <p className="text-sm text-[var(--text-tertiary)] mb-4">
-                Syllables per minute (SPM) throughout your presentation. Ideal range: 130-300 SPM
+                {strings.paceOverTimeHint(pace.slowBelow, pace.fastAbove)}
               </p>
               <div className="h-80">
                 <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={analysis.sampledSpmData}>
+                  <AreaChart
+                    data={analysis.sampledSpmData}
+                    onClick={(state) => handleChartSeek(state.activeLabel)}
+                    style={{ cursor: hasMedia ? "pointer" : undefined }}
+                  >
                     <defs>
                       <linearGradient id="spmGradient" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="5%" stopColor={COLORS.primary} stopOpacity={0.3} />
@@ -695,8 +711,10 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                     <CartesianGrid strokeDasharray="3 3" stroke="var(--border-secondary)" />
                     <XAxis
                       dataKey="time"
+                      type="number"
+                      domain={[0, "dataMax"]}
                       tick={{ fill: "var(--text-tertiary)", fontSize: 11 }}
-                      label={{ value: "Time (s)", position: "insideBottom", offset: -5, fill: "var(--text-tertiary)" }}
+                      label={{ value: strings.timeAxis, position: "insideBottom", offset: -5, fill: "var(--text-tertiary)" }}
                     />
                     <YAxis
                       tick={{ fill: "var(--text-tertiary)", fontSize: 11 }}
@@ -710,7 +728,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                         borderRadius: "8px",
                         color: "var(--text-primary)",
                       }}
-                      formatter={(value) => [`${value ?? 0} SPM`, "Pace"]}
+                      formatter={(value) => [`${value ?? 0} SPM`, strings.paceTooltip]}
                       labelFormatter={(label) => `Time: ${label}s`}
                     />
                     {/* Reference lines for ideal range */}
@@ -722,25 +740,28 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                       fill="url(#spmGradient)"
                       name="SPM"
                     />
+                    {hasMedia && currentTime > 0 && (
+                      <ReferenceLine x={currentTime} stroke="var(--accent-blue)" strokeWidth={2} />
+                    )}
                   </AreaChart>
                 </ResponsiveContainer>
               </div>
               <div className="flex justify-center gap-6 mt-4 text-sm">
                 <span className="flex items-center gap-2">
                   <span className="w-3 h-3 rounded bg-red-500"></span>
-                  Too Slow (&lt;130)
+                  {strings.speed["Too Slow"]} (&lt;{pace.slowBelow})
                 </span>
                 <span className="flex items-center gap-2">
                   <span className="w-3 h-3 rounded bg-green-500"></span>
-                  Ideal (130-300)
+                  {strings.speed.Ideal} ({pace.slowBelow}-{pace.fastAbove})
                 </span>
                 <span className="flex items-center gap-2">
                   <span className="w-3 h-3 rounded bg-yellow-500"></span>
-                  Fast (300-400)
+                  {strings.speed.Fast} ({pace.fastAbove}-{pace.tooFastAbove})
                 </span>
                 <span className="flex items-center gap-2">
                   <span className="w-3 h-3 rounded bg-red-500"></span>
-                  Too Fast (&gt;400)
+                  {strings.speed["Too Fast"]} (&gt;{pace.tooFastAbove})
                 </span>
               </div>
             </div>
@@ -750,13 +771,17 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
         {activeTab === "loudness" && (
           <div className="space-y-6">
             <div>
-              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-2">Volume Over Time</h4>
+              <h4 className="text-lg font-medium text-[var(--text-primary)] mb-2">{strings.volumeOverTime}</h4>
               <p className="text-sm text-[var(--text-tertiary)] mb-4">
-                Audio loudness in decibels (dB) relative to peak. Consistent volume indicates steady delivery.
+                {strings.volumeOverTimeHint}
               </p>
               <div className="h-80">
                 <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={analysis.sampledLoudnessData}>
+                  <AreaChart
+                    data={analysis.sampledLoudnessData}
+                    onClick={(state) => handleChartSeek(state.activeLabel)}
+                    style={{ cursor: hasMedia ? "pointer" : undefined }}
+                  >
                     <defs>
                       <linearGradient id="loudnessGradient" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="5%" stopColor={COLORS.secondary} stopOpacity={0.3} />
@@ -766,8 +791,10 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                     <CartesianGrid strokeDasharray="3 3" stroke="var(--border-secondary)" />
                     <XAxis
                       dataKey="time"
+                      type="number"
+                      domain={[0, "dataMax"]}
                       tick={{ fill: "var(--text-tertiary)", fontSize: 11 }}
-                      label={{ value: "Time (s)", position: "insideBottom", offset: -5, fill: "var(--text-tertiary)" }}
+                      label={{ value: strings.timeAxis, position: "insideBottom", offset: -5, fill: "var(--text-tertiary)" }}
                     />
                     <YAxis
                       tick={{ fill: "var(--text-tertiary)", fontSize: 11 }}
@@ -781,7 +808,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                         borderRadius: "8px",
                         color: "var(--text-primary)",
                       }}
-                      formatter={(value) => [`${value ?? 0} dB`, "Volume"]}
+                      formatter={(value) => [`${value ?? 0} dB`, strings.volumeTooltip]}
                       labelFormatter={(label) => `Time: ${label}s`}
                     />
                     <Area
@@ -792,6 +819,9 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                       fill="url(#loudnessGradient)"
                       name="Loudness"
                     />
+                    {hasMedia && currentTime > 0 && (
+                      <ReferenceLine x={currentTime} stroke="var(--accent-blue)" strokeWidth={2} />
+                    )}
                   </AreaChart>
                 </ResponsiveContainer>
               </div>
@@ -800,13 +830,13 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
             {/* Volume Stats */}
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
               <div className="p-4 bg-[var(--bg-tertiary)] rounded-sm">
-                <p className="text-sm text-[var(--text-tertiary)]">Average Volume</p>
+                <p className="text-sm text-[var(--text-tertiary)]">{strings.averageVolume}</p>
                 <p className="text-xl font-semibold text-[var(--text-primary)]">
                   {Math.round(analysis.avgLoudness)} dB
                 </p>
               </div>
               <div className="p-4 bg-[var(--bg-tertiary)] rounded-sm">
-                <p className="text-sm text-[var(--text-tertiary)]">Volume Variance</p>
+                <p className="text-sm text-[var(--text-tertiary)]">{strings.volumeVariance}</p>
                 <p className={`text-xl font-semibold ${
                   analysis.loudnessVariance < 5 ? "text-green-400" :
                   analysis.loudnessVariance < 10 ? "text-yellow-400" : "text-red-400"
@@ -819,7 +849,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                 </p>
               </div>
               <div className="p-4 bg-[var(--bg-tertiary)] rounded-sm">
-                <p className="text-sm text-[var(--text-tertiary)]">Consistency Score</p>
+                <p className="text-sm text-[var(--text-tertiary)]">{strings.consistencyScore}</p>
                 <p className={`text-xl font-semibold ${getScoreColor(Math.max(0, 100 - analysis.loudnessVariance * 5))}`}>
                   {Math.round(Math.max(0, 100 - analysis.loudnessVariance * 5))}%
                 </p>
@@ -830,6 +860,8 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
 
         {activeTab === "insights" && (
           <div className="space-y-6">
+            <PitchContextSummary context={pitchContext} />
+
             {/* Overall Verdict Section */}
             {data.insights?.overall_verdict && (
               <div className="relative overflow-hidden rounded bg-gradient-to-br from-[var(--accent-primary)]/20 via-purple-500/10 to-[var(--accent-primary)]/20 border border-[var(--accent-primary)]/30 p-6">
@@ -841,37 +873,16 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
                       </svg>
                     </div>
-                    <h4 className="text-lg font-semibold text-[var(--text-primary)]">The Verdict</h4>
-                    {data.verdict_audio && (
-                      <button
-                        onClick={playVerdictAudio}
-                        className={`ml-auto flex items-center gap-2 px-3 py-1.5 rounded-sm text-sm font-medium transition-all ${
-                          isPlayingVerdict
-                            ? "bg-[var(--accent-primary)] text-white"
-                            : "bg-[var(--bg-tertiary)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]"
-                        }`}
-                      >
-                        {isPlayingVerdict ? (
-                          <>
-                            <svg className="w-4 h-4 animate-pulse" fill="currentColor" viewBox="0 0 24 24">
-                              <path d="M8 5v14l11-7z" />
-                            </svg>
-                            Playing...
-                          </>
-                        ) : (
-                          <>
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
-                            </svg>
-                            Listen
-                          </>
-                        )}
-                      </button>
-                    )}
+                    <h4 className="text-lg font-semibold text-[var(--text-primary)]">{strings.verdict}</h4>
                   </div>
                   <p className="text-[var(--text-primary)] text-base leading-relaxed">
                     {data.insights.overall_verdict}
                   </p>
+                  {voiceClips.length > 0 && (
+                    <div className="mt-4">
+                      <VoiceCoachPlayer clips={voiceClips} />
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -890,7 +901,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                           </svg>
                         </div>
-                        <h5 className="font-semibold text-[var(--text-primary)]">Clarity</h5>
+                        <h5 className="font-semibold text-[var(--text-primary)]">{strings.clarity}</h5>
                       </div>
                       <div className={`px-2 py-0.5 rounded-full text-xs font-semibold bg-gradient-to-r ${getScoreGradient(data.insights.clarity.score)} text-white`}>
                         {data.insights.clarity.score}/5
@@ -916,7 +927,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                           </svg>
                         </div>
-                        <h5 className="font-semibold text-[var(--text-primary)]">Pacing</h5>
+                        <h5 className="font-semibold text-[var(--text-primary)]">{strings.pacing}</h5>
                       </div>
                       <div className={`px-2 py-0.5 rounded-full text-xs font-semibold bg-gradient-to-r ${getScoreGradient(data.insights.pacing.score)} text-white`}>
                         {data.insights.pacing.score}/5
@@ -942,9 +953,9 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
                           </svg>
                         </div>
-                        <h5 className="font-semibold text-[var(--text-primary)]">Filler Words</h5>
+                        <h5 className="font-semibold text-[var(--text-primary)]">{strings.fillerWords}</h5>
                         <span className="text-xs px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-400">
-                          {data.insights.filler_words.count} found
+                          {strings.foundCount(data.insights.filler_words.count)}
                         </span>
                       </div>
                       <div className={`px-2 py-0.5 rounded-full text-xs font-semibold bg-gradient-to-r ${getScoreGradient(data.insights.filler_words.score)} text-white`}>
@@ -971,7 +982,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
                           </svg>
                         </div>
-                        <h5 className="font-semibold text-[var(--text-primary)]">Structure</h5>
+                        <h5 className="font-semibold text-[var(--text-primary)]">{strings.structure}</h5>
                       </div>
                       <div className={`px-2 py-0.5 rounded-full text-xs font-semibold bg-gradient-to-r ${getScoreGradient(data.insights.structure.score)} text-white`}>
                         {data.insights.structure.score}/5
@@ -997,7 +1008,7 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                           </svg>
                         </div>
-                        <h5 className="font-semibold text-[var(--text-primary)]">Engagement</h5>
+                        <h5 className="font-semibold text-[var(--text-primary)]">{strings.engagement}</h5>
                       </div>
                       <div className={`px-2 py-0.5 rounded-full text-xs font-semibold bg-gradient-to-r ${getScoreGradient(data.insights.engagement.score)} text-white`}>
                         {data.insights.engagement.score}/5
@@ -1012,6 +1023,32 @@ export function SpeechAnalysisResults({ data, onReset }: SpeechAnalysisResultsPr
                     </div>
                   </div>
                 )}
+
+                {/* Audience Fit Card */}
+                {data.insights.audience_fit && (
+                  <div className={`rounded border p-5 ${getScoreBgColor(data.insights.audience_fit.score)}`}>
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="flex items-center gap-2">
+                        <div className="w-8 h-8 rounded-sm bg-pink-500/20 flex items-center justify-center">
+                          <svg className="w-4 h-4 text-pink-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                          </svg>
+                        </div>
+                        <h5 className="font-semibold text-[var(--text-primary)]">{strings.audienceFit}</h5>
+                      </div>
+                      <div className={`px-2 py-0.5 rounded-full text-xs font-semibold bg-gradient-to-r ${getScoreGradient(data.insights.audience_fit.score)} text-white`}>
+                        {data.insights.audience_fit.score}/5
+                      </div>
+                    </div>
+                    <p className="text-sm text-[var(--text-secondary)] mb-3">{data.insights.audience_fit.insight}</p>
+                    <div className="flex items-start gap-2 p-2 bg-[var(--bg-tertiary)]/50 rounded-sm">
+                      <svg className="w-4 h-4 text-[var(--accent-primary)] mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                      </svg>
+                      <p className="text-xs text-[var(--text-tertiary)]">{data.insights.audience_fit.action}</p>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
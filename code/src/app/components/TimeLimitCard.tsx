@@ -0,0 +1,107 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { AudioAnalysisResponse } from "@/app/services/api";
+import { analyzeTimeLimit } from "@/app/services/timeLimit";
+import { formatTimeLimit } from "@/app/services/pitchContext";
+
+interface TimeLimitCardProps {
+  data: AudioAnalysisResponse;
+  limitSec: number;
+}
+
+const formatDelta = (seconds: number): string => {
+  const rounded = Math.round(Math.abs(seconds));
+  const mins = Math.floor(rounded / 60);
+  const secs = rounded % 60;
+  return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
+};
+
+// Within this many seconds of the limit counts as on time
+const ON_TIME_TOLERANCE_SEC = 5;
+
+export function TimeLimitCard({ data, limitSec }: TimeLimitCardProps) {
+  const [showOverrun, setShowOverrun] = useState(false);
+  const report = useMemo(() => analyzeTimeLimit(data, limitSec), [data, limitSec]);
+  if (!report) return null;
+
+  const isOver = report.deltaSec > ON_TIME_TOLERANCE_SEC;
+  const isUnder = report.deltaSec < -ON_TIME_TOLERANCE_SEC;
+  const status = isOver
+    ? { label: `${formatDelta(report.deltaSec)} over`, style: "bg-red-500/10 border-red-500/30", text: "text-red-400" }
+    : isUnder
+      ? { label: `${formatDelta(report.deltaSec)} under`, style: "bg-yellow-500/10 border-yellow-500/30", text: "text-yellow-400" }
+      : { label: "On time", style: "bg-green-500/10 border-green-500/30", text: "text-green-400" };
+
+  return (
+    <div className={`rounded border p-5 space-y-4 ${status.style}`}>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h4 className="text-lg font-medium text-[var(--text-primary)]">Time Limit</h4>
+          <p className="text-sm text-[var(--text-tertiary)]">
+            {formatDelta(report.durationSec)} spoken against a {formatTimeLimit(report.limitSec)} slot
+          </p>
+        </div>
+        <span className={`text-lg font-semibold ${status.text}`}>{status.label}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs text-[var(--text-tertiary)]">Your pace</p>
+          <p className="text-xl font-semibold text-[var(--text-primary)]">{report.currentWpm} WPM</p>
+        </div>
+        <div>
+          <p className="text-xs text-[var(--text-tertiary)]">Pace to fit the same words</p>
+          <p className="text-xl font-semibold text-[var(--text-primary)]">{report.requiredWpm} WPM</p>
+        </div>
+      </div>
+
+      {isUnder && (
+        <p className="text-sm text-[var(--text-secondary)]">
+          You have {formatDelta(report.deltaSec)} to spare. Use it to slow down on key points or add a concrete example.
+        </p>
+      )}
+
+      {isOver && (
+        <div className="space-y-3">
+          <p className="text-sm text-[var(--text-secondary)]">
+            {report.overrunWordCount} words came after the limit and would have been cut off.
+            {report.fillerCount > 0 && ` Dropping your ${report.fillerCount} filler words alone saves about ${formatDelta(report.fillerSavingsSec)}.`}
+          </p>
+
+          {report.overrunText && (
+            <div>
+              <button
+                onClick={() => setShowOverrun(!showOverrun)}
+                className="text-xs text-[var(--accent-primary)] hover:underline"
+              >
+                {showOverrun ? "Hide what was said after the limit" : "Show what was said after the limit"}
+              </button>
+              {showOverrun && (
+                <p className="mt-2 p-3 rounded-sm bg-[var(--bg-tertiary)] text-sm text-[var(--text-tertiary)] italic max-h-32 overflow-y-auto">
+                  {report.overrunText}
+                </p>
+              )}
+            </div>
+          )}
+
+          {report.cutSuggestions.length > 0 && (
+            <div>
+              <h5 className="text-sm font-medium text-[var(--text-primary)] mb-2">Candidates to cut or shorten</h5>
+              <ul className="space-y-2">
+                {report.cutSuggestions.map((suggestion, index) => (
+                  <li key={index} className="flex items-start gap-2 p-2 rounded-sm bg-[var(--bg-tertiary)]/50 text-sm">
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 shrink-0">
+                      {suggestion.wordCount} words
+                    </span>
+                    <span className="text-[var(--text-secondary)]">{suggestion.text}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { WARNING_SECONDS } from "@/app/services/timeLimit";
+
+interface TimeLimitCountdownProps {
+  elapsed: number; // seconds
+  limit: number;
+  autoStop?: boolean;
+}
+
+const formatClock = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+export function TimeLimitCountdown({ elapsed, limit, autoStop }: TimeLimitCountdownProps) {
+  const remaining = limit - elapsed;
+  const warning = WARNING_SECONDS.find((threshold) => remaining > 0 && remaining <= threshold);
+
+  let message = autoStop ? "Recording stops automatically at the limit" : "Time remaining";
+  let tone = "text-[var(--text-tertiary)]";
+  let barColor = "bg-green-500";
+  if (remaining <= 0) {
+    message = `Over time by ${formatClock(-remaining)}`;
+    tone = "text-red-400";
+    barColor = "bg-red-500";
+  } else if (warning) {
+    message = warning >= 60 ? `${warning / 60} minute left, start wrapping up` : `${warning} seconds left`;
+    tone = "text-yellow-400";
+    barColor = "bg-yellow-500";
+  }
+
+  return (
+    <div className="space-y-2" role="timer">
+      <div className="flex items-center justify-between text-sm">
+        <span className={`font-medium ${tone}`}>{message}</span>
+        <span className={`font-mono font-semibold ${remaining <= 0 ? "text-red-400" : "text-[var(--text-primary)]"}`}>
+          {remaining <= 0 ? `+${formatClock(-remaining)}` : formatClock(remaining)}
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-[var(--bg-tertiary)] overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-1000 ${barColor}`}
+          style={{ width: `${Math.min(100, (elapsed / limit) * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
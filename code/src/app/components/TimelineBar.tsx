@@ -0,0 +1,47 @@
+"use client";
+
+import type { CoachingEvent, CoachingEventType } from "@/app/services/coachingEvents";
+
+export const EVENT_STYLES: Record<CoachingEventType, { label: string; color: string }> = {
+  filler_spike: { label: "Filler spike", color: "bg-orange-400" },
+  pace_fast: { label: "Too fast", color: "bg-red-400" },
+  pace_slow: { label: "Too slow", color: "bg-yellow-400" },
+  long_pause: { label: "Long pause", color: "bg-purple-400" },
+  strong_moment: { label: "Strong moment", color: "bg-green-400" },
+};
+
+interface TimelineBarProps {
+  events: CoachingEvent[];
+  duration: number; // seconds
+  currentTime?: number;
+  selectedId?: string | null;
+  onSelect: (event: CoachingEvent) => void;
+}
+
+export function TimelineBar({ events, duration, currentTime = 0, selectedId, onSelect }: TimelineBarProps) {
+  const toPercent = (seconds: number): number =>
+    duration > 0 ? Math.min(100, (seconds / duration) * 100) : 0;
+
+  return (
+    <div className="relative h-10">
+      <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-1.5 rounded-full bg-[var(--bg-tertiary)]" />
+      {currentTime > 0 && (
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-[var(--accent-blue)]"
+          style={{ left: `${toPercent(currentTime)}%` }}
+        />
+      )}
+      {events.map((event) => (
+        <button
+          key={event.id}
+          onClick={() => onSelect(event)}
+          title={`${EVENT_STYLES[event.type].label}: ${event.title}`}
+          className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 rounded-full border-2 border-[var(--bg-secondary)] transition-transform hover:scale-125 ${
+            EVENT_STYLES[event.type].color
+          } ${event.id === selectedId ? "w-5 h-5 ring-2 ring-[var(--accent-blue)]" : "w-4 h-4"}`}
+          style={{ left: `${toPercent(event.tMs / 1000)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState, useRef, useCallback, useMemo } from "react";
+import type { WordAnalysis } from "@/app/services/api";
+import type { CoachingEvent } from "@/app/services/coachingEvents";
+import { computeWordTimings, findWordIndexAt } from "@/app/services/timing";
+import { usePlayback } from "@/app/components/PlaybackContext";
+import { EVENT_STYLES } from "@/app/components/TimelineBar";
+
+interface VideoPlaybackProps {
+  videoUrl: string;
+  wordAnalysis: WordAnalysis[];
+  timestamps: [number, number][]; // [time, spm]
+  events: CoachingEvent[]; // the same moments the coaching timeline lists
+}
+
+const CAPTION_WORDS = 4; // words shown either side of the current one
+
+export function VideoPlayback({ videoUrl, wordAnalysis, timestamps, events }: VideoPlaybackProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [hasPicture, setHasPicture] = useState(true);
+
+  const { currentTime, seek, reportTime, attachMedia } = usePlayback();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  const attachVideo = useCallback((element: HTMLVideoElement | null) => {
+    videoRef.current = element;
+    attachMedia(element);
+  }, [attachMedia]);
+
+  const totalDuration = duration || (timestamps.length > 0 ? timestamps[timestamps.length - 1][0] : 0);
+
+  const wordTimings = useMemo(
+    () => computeWordTimings(wordAnalysis, timestamps, duration),
+    [wordAnalysis, timestamps, duration],
+  );
+
+  const currentWordIndex = isPlaying || currentTime > 0 ? findWordIndexAt(wordTimings, currentTime) : -1;
+  const caption = currentWordIndex === -1
+    ? []
+    : wordAnalysis.slice(Math.max(0, currentWordIndex - CAPTION_WORDS), currentWordIndex + CAPTION_WORDS + 1);
+  const captionOffset = Math.max(0, currentWordIndex - CAPTION_WORDS);
+
+  const handleLoadedMetadata = () => {
+    if (videoRef.current) {
+      setDuration(videoRef.current.duration);
+      // Uploaded webm files are sometimes audio-only
+      setHasPicture(videoRef.current.videoWidth > 0);
+    }
+  };
+
+  const togglePlayPause = () => {
+    if (!videoRef.current) return;
+    if (videoRef.current.paused) {
+      videoRef.current.play();
+    } else {
+      videoRef.current.pause();
+    }
+  };
+
+  const handleScrub = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!totalDuration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek(((e.clientX - rect.left) / rect.width) * totalDuration);
+  };
+
+  const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  const toPercent = (time: number): number => (totalDuration > 0 ? (time / totalDuration) * 100 : 0);
+
+  return (
+    <div className="bg-[var(--bg-secondary)] rounded border border-[var(--border-primary)] overflow-hidden">
+      {/* Video */}
+      <div className={`relative bg-black ${hasPicture ? "aspect-video" : "h-24"}`}>
+        <video
+          ref={attachVideo}
+          src={videoUrl}
+          playsInline
+          onClick={togglePlayPause}
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={() => videoRef.current && reportTime(videoRef.current.currentTime)}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          className="w-full h-full object-contain cursor-pointer"
+        />
+
+        {/* Caption */}
+        {caption.length > 0 && (
+          <div className="absolute bottom-4 inset-x-4 flex justify-center pointer-events-none">
+            <p className="px-3 py-1.5 rounded bg-black/70 text-white text-sm text-center">
+              {caption.map((word, i) => (
+                <span
+                  key={captionOffset + i}
+                  className={captionOffset + i === currentWordIndex ? "font-semibold text-[var(--accent-blue)]" : ""}
+                >
+                  {word.word}{" "}
+                </span>
+              ))}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="p-4 space-y-3">
+        {/* Scrub bar with coaching-moment markers */}
+        <div className="relative h-6 cursor-pointer" onClick={handleScrub}>
+          <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-2 rounded-full bg-[var(--bg-tertiary)]" />
+          <div
+            className="absolute left-0 top-1/2 -translate-y-1/2 h-2 rounded-full bg-[var(--accent-blue)]"
+            style={{ width: `${toPercent(currentTime)}%` }}
+          />
+          {events.map((event) => (
+            <button
+              key={event.id}
+              title={`${formatTime(event.tMs / 1000)} · ${event.title}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                seek(event.tMs / 1000);
+              }}
+              className={`absolute top-0 h-6 w-[3px] -translate-x-1/2 rounded-sm opacity-80 hover:opacity-100 ${EVENT_STYLES[event.type].color}`}
+              style={{ left: `${toPercent(event.tMs / 1000)}%` }}
+            />
+          ))}
+          <div
+            className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-4 h-4 rounded-full bg-[var(--accent-blue)] shadow-lg pointer-events-none"
+            style={{ left: `${toPercent(currentTime)}%` }}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <button
+            onClick={togglePlayPause}
+            className="p-3 rounded-full bg-[var(--accent-blue)] text-white hover:bg-[var(--accent-blue-hover)] transition-colors"
+          >
+            {isPlaying ? (
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
+              </svg>
+            ) : (
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M8 5v14l11-7z"/>
+              </svg>
+            )}
+          </button>
+
+          <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-xs text-[var(--text-tertiary)]">
+            {Object.entries(EVENT_STYLES).map(([type, style]) => (
+              <span key={type} className="flex items-center gap-1">
+                <span className={`w-2 h-2 rounded-full ${style.color}`}></span>
+                {style.label}
+              </span>
+            ))}
+          </div>
+
+          <span className="text-xs text-[var(--text-tertiary)] font-mono">
+            {formatTime(currentTime)} / {formatTime(totalDuration)}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { TimeLimitCountdown } from "@/app/components/TimeLimitCountdown";
+
+interface VideoRecorderProps {
+  onRecordingComplete: (file: File, videoUrl: string) => void;
+  disabled?: boolean;
+  timeLimitSec?: number | null;
+  autoStop?: boolean; // stop and save once the time limit is reached
+}
+
+// Backend accepts video/webm and video/mp4; codecs are dropped from the file type
+const VIDEO_MIME_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm", "video/mp4"];
+
+export function VideoRecorder({ onRecordingComplete, disabled, timeLimitSec, autoStop }: VideoRecorderProps) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [recordingTime, setRecordingTime] = useState(0);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const videoChunksRef = useRef<Blob[]>([]);
+  const cancelledRef = useRef(false);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const elapsedRef = useRef(0);
+  const streamRef = useRef<MediaStream | null>(null);
+  const previewRef = useRef<HTMLVideoElement | null>(null);
+
+  const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  const startTimer = () => {
+    timerRef.current = setInterval(() => {
+      elapsedRef.current += 1;
+      setRecordingTime(elapsedRef.current);
+      if (autoStop && timeLimitSec && elapsedRef.current >= timeLimitSec) {
+        stopRecording();
+      }
+    }, 1000);
+  };
+
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const releaseStream = () => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    if (previewRef.current) {
+      previewRef.current.srcObject = null;
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { width: { ideal: 1280 }, height: { ideal: 720 }, facingMode: "user" },
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        },
+      });
+
+      streamRef.current = stream;
+      setPermissionDenied(false);
+
+      if (previewRef.current) {
+        previewRef.current.srcObject = stream;
+      }
+
+      const mimeType = VIDEO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+      const mediaRecorder = new MediaRecorder(stream, {
+        mimeType: mimeType || undefined,
+      });
+
+      mediaRecorderRef.current = mediaRecorder;
+      videoChunksRef.current = [];
+      cancelledRef.current = false;
+
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          videoChunksRef.current.push(event.data);
+        }
+      };
+
+      mediaRecorder.onstop = () => {
+        releaseStream();
+        if (cancelledRef.current) return;
+
+        const isMp4 = mediaRecorder.mimeType.includes("mp4");
+        const fileMimeType = isMp4 ? "video/mp4" : "video/webm";
+        const videoBlob = new Blob(videoChunksRef.current, { type: fileMimeType });
+        const file = new File([videoBlob], `recording-${Date.now()}.${isMp4 ? "mp4" : "webm"}`, {
+          type: fileMimeType,
+        });
+
+        onRecordingComplete(file, URL.createObjectURL(videoBlob));
+      };
+
+      mediaRecorder.start(100); // Collect data every 100ms
+      setIsRecording(true);
+      setIsPaused(false);
+      setRecordingTime(0);
+      elapsedRef.current = 0;
+      startTimer();
+    } catch (error) {
+      console.error("Error accessing camera:", error);
+      releaseStream();
+      setPermissionDenied(true);
+    }
+  };
+
+  const pauseRecording = () => {
+    if (mediaRecorderRef.current && isRecording) {
+      if (isPaused) {
+        mediaRecorderRef.current.resume();
+        startTimer();
+      } else {
+        mediaRecorderRef.current.pause();
+        stopTimer();
+      }
+      setIsPaused(!isPaused);
+    }
+  };
+
+  // Checks the recorder rather than isRecording so the timer can call it for auto-stop
+  const stopRecording = () => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== "inactive") {
+      mediaRecorderRef.current.stop();
+      setIsRecording(false);
+      setIsPaused(false);
+      stopTimer();
+    }
+  };
+
+  const cancelRecording = () => {
+    cancelledRef.current = true;
+    if (mediaRecorderRef.current && isRecording) {
+      mediaRecorderRef.current.stop();
+      videoChunksRef.current = [];
+    }
+    releaseStream();
+
+    setIsRecording(false);
+    setIsPaused(false);
+    setRecordingTime(0);
+    stopTimer();
+  };
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearInterval(timerRef.current);
+      if (streamRef.current) {
+        streamRef.current.getTracks().forEach(track => track.stop());
+      }
+    };
+  }, []);
+
+  if (permissionDenied) {
+    return (
+      <div className="p-4 rounded bg-[var(--error-subtle)] border border-[var(--error)]/30">
+        <div className="flex items-center gap-3">
+          <svg className="w-5 h-5 text-[var(--error)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+          <div>
+            <p className="text-sm font-medium text-[var(--error)]">Camera access denied</p>
+            <p className="text-xs text-[var(--text-tertiary)] mt-1">
+              Please allow camera and microphone access in your browser settings to record video.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setPermissionDenied(false)}
+          className="mt-3 text-sm text-[var(--accent-primary)] hover:underline"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Camera Preview - always mounted so the stream can be attached before the first render */}
+      <div className={`relative aspect-video rounded overflow-hidden bg-black ${isRecording ? "" : "hidden"}`}>
+        <video ref={previewRef} autoPlay muted playsInline className="w-full h-full object-cover -scale-x-100" />
+        <div className="absolute top-3 left-3 flex items-center gap-2 px-2 py-1 rounded bg-black/60">
+          <div className={`w-3 h-3 rounded-full ${isPaused ? "bg-yellow-400" : "bg-red-500 animate-pulse"}`} />
+          <span className="text-sm font-medium text-white">
+            {isPaused ? "Paused" : "Recording"}
+          </span>
+        </div>
+        <div className="absolute top-3 right-3 px-2 py-1 rounded bg-black/60 text-lg font-mono font-semibold text-white">
+          {formatTime(recordingTime)}
+        </div>
+      </div>
+
+      {isRecording && timeLimitSec && (
+        <TimeLimitCountdown elapsed={recordingTime} limit={timeLimitSec} autoStop={autoStop} />
+      )}
+
+      {/* Recording Controls */}
+      {!isRecording ? (
+        <button
+          onClick={startRecording}
+          disabled={disabled}
+          className={`
+            w-full flex items-center justify-center gap-3 px-6 py-4 rounded
+            transition-all duration-200 font-medium
+            ${disabled
+              ? "bg-[var(--bg-tertiary)] text-[var(--text-muted)] cursor-not-allowed"
+              : "bg-[var(--accent-primary)]/10 text-[var(--accent-primary)] border border-[var(--accent-primary)]/30 hover:bg-[var(--accent-primary)]/20 hover:border-[var(--accent-primary)]/50"
+            }
+          `}
+        >
+          <div className="w-10 h-10 rounded-full bg-[var(--accent-primary)] flex items-center justify-center">
+            <svg className="w-5 h-5 text-[var(--bg-primary)]" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M17 10.5V7a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h12a1 1 0 001-1v-3.5l4 4v-11l-4 4z"/>
+            </svg>
+          </div>
+          <span>Start Video Recording</span>
+        </button>
+      ) : (
+        <div className="flex items-center justify-center gap-3">
+          {/* Cancel Button */}
+          <button
+            onClick={cancelRecording}
+            className="p-3 rounded-full bg-[var(--bg-tertiary)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--error)] transition-colors"
+            title="Cancel"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+
+          {/* Pause/Resume Button */}
+          <button
+            onClick={pauseRecording}
+            className="p-3 rounded-full bg-[var(--bg-tertiary)] text-[var(--text-secondary)] hover:bg-[var(--bg-hover)] hover:text-[var(--accent-primary)] transition-colors"
+            title={isPaused ? "Resume" : "Pause"}
+          >
+            {isPaused ? (
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M8 5v14l11-7z"/>
+              </svg>
+            ) : (
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
+              </svg>
+            )}
+          </button>
+
+          {/* Stop Button */}
+          <button
+            onClick={stopRecording}
+            className="p-4 rounded-full bg-red-500 text-white hover:bg-red-600 transition-all duration-200 hover:scale-105 active:scale-95 shadow-lg shadow-red-500/30"
+            title="Stop & Save"
+          >
+            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="6" y="6" width="12" height="12" rx="2"/>
+            </svg>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
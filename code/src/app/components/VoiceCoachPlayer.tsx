@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useRef, useMemo } from "react";
+import type { VoiceClip, VoicePersona } from "@/app/services/api";
+
+interface VoiceCoachPlayerProps {
+  clips: VoiceClip[];
+}
+
+const PERSONAS: Record<VoicePersona, { label: string; tagline: string }> = {
+  encouraging_coach: { label: "Encouraging Coach", tagline: "What worked and how to build on it" },
+  strict_investor: { label: "Strict Investor", tagline: "The questions a skeptical investor would ask" },
+};
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+// Splits a script into sentences with estimated start times. TTS reads at a
+// fairly even rate, so each sentence's share of the characters approximates
+// its share of the clip.
+function timeScript(script: string, duration: number): { text: string; start: number }[] {
+  const sentences = script.split(/(?<=[.!?])\s+/).map((text) => text.trim()).filter(Boolean);
+  const totalChars = sentences.reduce((sum, text) => sum + text.length, 0) || 1;
+  let offset = 0;
+  return sentences.map((text) => {
+    const start = (offset / totalChars) * duration;
+    offset += text.length;
+    return { text, start };
+  });
+}
+
+// Spoken feedback from one of several personas. Nothing plays until the user
+// presses play; switching persona stops the current clip.
+export function VoiceCoachPlayer({ clips }: VoiceCoachPlayerProps) {
+  const [persona, setPersona] = useState<VoicePersona>(clips[0]?.persona ?? "encouraging_coach");
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const clip = clips.find((candidate) => candidate.persona === persona) ?? clips[0];
+  const totalDuration = duration || clip?.durationSec || 0;
+
+  const sentences = useMemo(
+    () => (clip ? timeScript(clip.script, totalDuration) : []),
+    [clip, totalDuration],
+  );
+  const currentSentence = isPlaying || currentTime > 0
+    ? sentences.findLastIndex((sentence) => sentence.start <= currentTime)
+    : -1;
+
+  if (!clip) return null;
+
+  const selectPersona = (next: VoicePersona) => {
+    if (next === persona) return;
+    audioRef.current?.pause();
+    setPersona(next);
+    setIsPlaying(false);
+    setCurrentTime(0);
+    setDuration(0);
+  };
+
+  const togglePlayPause = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((err) => console.error("Voice clip playback failed:", err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (seconds: number) => {
+    if (audioRef.current) audioRef.current.currentTime = seconds;
+    setCurrentTime(seconds);
+  };
+
+  const progress = totalDuration > 0 ? (currentTime / totalDuration) * 100 : 0;
+
+  return (
+    <div className="rounded-sm bg-[var(--bg-tertiary)] border border-[var(--border-primary)] p-4 space-y-4">
+      {clips.length > 1 && (
+        <div className="segment-control">
+          {clips.map((option) => (
+            <button
+              key={option.persona}
+              onClick={() => selectPersona(option.persona)}
+              className={`segment-btn ${option.persona === persona ? "segment-btn-active" : ""}`}
+            >
+              {PERSONAS[option.persona]?.label ?? option.persona}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlayPause}
+          aria-label={isPlaying ? "Pause" : "Play"}
+          className="w-10 h-10 shrink-0 rounded-full bg-[var(--accent-primary)] text-[var(--bg-primary)] flex items-center justify-center hover:opacity-90 transition-opacity"
+        >
+          {isPlaying ? (
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+            </svg>
+          ) : (
+            <svg className="w-4 h-4 ml-0.5" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+          )}
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-[var(--text-primary)]">{PERSONAS[clip.persona]?.label ?? clip.persona}</p>
+          <p className="text-xs text-[var(--text-tertiary)] truncate">{PERSONAS[clip.persona]?.tagline}</p>
+        </div>
+        <span className="text-xs font-mono text-[var(--text-tertiary)] shrink-0">
+          {formatTime(currentTime)} / {formatTime(totalDuration)}
+        </span>
+      </div>
+
+      <input
+        type="range"
+        min="0"
+        max={totalDuration || 1}
+        step="0.1"
+        value={currentTime}
+        onChange={(e) => seek(parseFloat(e.target.value))}
+        aria-label="Seek"
+        className="w-full h-1.5 rounded-full appearance-none cursor-pointer
+          [&::-webkit-slider-thumb]:appearance-none
+          [&::-webkit-slider-thumb]:w-3
+          [&::-webkit-slider-thumb]:h-3
+          [&::-webkit-slider-thumb]:rounded-full
+          [&::-webkit-slider-thumb]:bg-[var(--accent-primary)]"
+        style={{
+          background: `linear-gradient(to right, var(--accent-primary) ${progress}%, var(--bg-secondary) ${progress}%)`,
+        }}
+      />
+
+      {/* Script, following along with the clip */}
+      {sentences.length > 0 && (
+        <p className="text-sm leading-relaxed">
+          {sentences.map((sentence, index) => (
+            <span
+              key={index}
+              onClick={() => seek(sentence.start)}
+              className={`cursor-pointer transition-colors ${
+                index === currentSentence
+                  ? "text-[var(--text-primary)]"
+                  : "text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]"
+              }`}
+            >
+              {sentence.text}{" "}
+            </span>
+          ))}
+        </p>
+      )}
+
+      <audio
+        ref={audioRef}
+        src={clip.audioUrl}
+        preload="metadata"
+        onLoadedMetadata={(e) => {
+          // Streamed clips can report an infinite duration until fully loaded
+          if (Number.isFinite(e.currentTarget.duration)) setDuration(e.currentTarget.duration);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        className="hidden"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Navbar } from "@/app/components/Navbar";
+import { InteractiveBackground } from "@/app/components/InteractiveBackground";
+import { SessionTransfer } from "@/app/components/SessionTransfer";
+import { useTheme } from "@/app/components/ThemeContext";
+import {
+  listAnalyses,
+  deleteAnalysis,
+  resultsPath,
+  comparePath,
+  pitchKey,
+  type AnalysisRecord,
+} from "@/app/services/history";
+import { calculateSpeechMetrics, calculateDeckMetrics } from "@/app/services/metrics";
+
+const TYPE_LABELS: Record<AnalysisRecord["analysisType"], string> = {
+  speech: "Speech",
+  slides: "Slides",
+  both: "Speech + Slides",
+};
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const getScoreColor = (score: number): string => {
+  if (score >= 80) return "text-green-400";
+  if (score >= 60) return "text-yellow-400";
+  return "text-red-400";
+};
+
+export default function History() {
+  const router = useRouter();
+  const { isDark, toggleTheme } = useTheme();
+
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setRecords)
+      .catch((error) => {
+        console.error("Failed to load analysis history:", error);
+        setLoadError("Couldn't load your analysis history.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const scores = useMemo(
+    () =>
+      Object.fromEntries(
+        records.map((record) => [
+          record.id,
+          {
+            speech: record.audioResult ? calculateSpeechMetrics(record.audioResult).overallScore : null,
+            slides: record.pdfResult ? calculateDeckMetrics(record.pdfResult).overallScore : null,
+          },
+        ]),
+      ),
+    [records],
+  );
+
+  // Speech attempts grouped by pitch, used to offer a one-click comparison
+  const attemptsByPitch = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    for (const record of records) {
+      const key = pitchKey(record.title);
+      if (!record.audioResult || !key) continue;
+      groups.set(key, [...(groups.get(key) ?? []), record.id]);
+    }
+    return groups;
+  }, [records]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Delete this analysis from your history?")) return;
+    try {
+      await deleteAnalysis(id);
+      setRecords((prev) => prev.filter((record) => record.id !== id));
+      setCompareIds((prev) => prev.filter((x) => x !== id));
+    } catch (error) {
+      console.error("Failed to delete analysis:", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[var(--bg-primary)] transition-colors duration-300 relative overflow-hidden">
+      {/* Interactive Background */}
+      <InteractiveBackground />
+
+      {/* Content Layer */}
+      <div className="relative z-10 pt-24">
+        <Navbar
+          brandName="Pitch Perfect"
+          navItems={[
+            { label: "Home", onClick: () => router.push("/") },
+            { label: "Learn More", onClick: () => router.push("/learn-more") },
+            { label: "History", onClick: () => router.push("/history") },
+            { label: "Analyze", onClick: () => router.push("/#analyze") },
+          ]}
+          onThemeToggle={toggleTheme}
+          isDarkMode={isDark}
+        />
+
+        <main className="max-w-2xl mx-auto px-6 py-12">
+          <section className="space-y-6 animate-fade-in">
+            <div className="flex items-end justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-[var(--text-primary)] mb-2">Your Analyses</h1>
+                <p className="text-[var(--text-secondary)]">
+                  Every completed analysis is saved in this browser. Open one to review it again,
+                  or tick two or more speech analyses to compare them.
+                </p>
+              </div>
+              {compareIds.length >= 2 && (
+                <button
+                  onClick={() => router.push(comparePath(compareIds))}
+                  className="shrink-0 px-4 py-2 rounded-xl bg-[var(--accent-primary)] text-[var(--bg-primary)] font-semibold hover:bg-[var(--accent-primary-hover)] transition-all duration-200 text-sm"
+                >
+                  Compare ({compareIds.length})
+                </button>
+              )}
+            </div>
+
+            {isLoading && (
+              <p className="text-[var(--text-primary)]/60">Loading history...</p>
+            )}
+
+            {loadError && (
+              <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+                <p className="text-red-400 text-sm">{loadError}</p>
+              </div>
+            )}
+
+            {!isLoading && !loadError && records.length === 0 && (
+              <div className="wizard-container text-center py-12">
+                <p className="text-[var(--text-primary)] font-medium mb-2">No analyses yet</p>
+                <p className="text-sm text-[var(--text-primary)]/50 mb-6">
+                  Results appear here after you run your first analysis.
+                </p>
+                <Link
+                  href="/#analyze"
+                  className="inline-flex items-center gap-2 px-6 py-3 rounded-xl bg-[var(--accent-primary)] text-[var(--bg-primary)] font-semibold hover:bg-[var(--accent-primary-hover)] transition-all duration-200"
+                >
+                  Start Analyzing
+                </Link>
+              </div>
+            )}
+
+            <div className="grid gap-3">
+              {records.map((record) => {
+                const score = scores[record.id];
+                const key = pitchKey(record.title);
+                const pitchAttempts = record.audioResult && key ? attemptsByPitch.get(key) ?? [] : [];
+                return (
+                  <div key={record.id} className="wizard-card group">
+                    <div className="flex items-center gap-4">
+                      {record.audioResult && (
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(record.id)}
+                          onChange={() => toggleCompare(record.id)}
+                          aria-label="Select for comparison"
+                          className="w-4 h-4 accent-[var(--accent-blue)]"
+                        />
+                      )}
+                      <Link
+                        href={resultsPath(record)}
+                        className="flex-1 min-w-0 flex items-center gap-4 text-left"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <h3 className="text-lg font-semibold text-[var(--text-primary)] truncate">
+                            {record.title || "Untitled pitch"}
+                          </h3>
+                          <p className="text-sm text-[var(--text-primary)]/50">
+                            {formatDate(record.createdAt)} · {TYPE_LABELS[record.analysisType]}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                          {score?.speech !== null && score?.speech !== undefined && (
+                            <div className="text-right">
+                              <p className="text-xs text-[var(--text-tertiary)]">Speech</p>
+                              <p className={`text-xl font-bold ${getScoreColor(score.speech)}`}>{score.speech}</p>
+                            </div>
+                          )}
+                          {score?.slides !== null && score?.slides !== undefined && (
+                            <div className="text-right">
+                              <p className="text-xs text-[var(--text-tertiary)]">Slides</p>
+                              <p className={`text-xl font-bold ${getScoreColor(score.slides)}`}>{score.slides}</p>
+                            </div>
+                          )}
+                        </div>
+                      </Link>
+                      <button
+                        onClick={() => handleDelete(record.id)}
+                        title="Delete"
+                        className="p-2 rounded-lg text-[var(--text-primary)]/40 hover:text-[var(--text-primary)] hover:bg-[var(--text-primary)]/10 transition-colors"
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                    {pitchAttempts.length >= 2 && pitchAttempts[0] === record.id && (
+                      <Link
+                        href={comparePath(pitchAttempts)}
+                        className="inline-block mt-3 text-sm text-[var(--accent-blue)] hover:underline"
+                      >
+                        Compare all {pitchAttempts.length} attempts of this pitch
+                      </Link>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        </main>
+
+        <footer className="border-t border-[var(--border-primary)] mt-auto">
+          <div className="max-w-4xl mx-auto px-6 py-6">
+            <p className="text-center text-sm text-[var(--text-muted)]">
+              Pitch Perfect - AI-powered presentation coaching
+            </p>
+            <div className="mt-3">
+              <SessionTransfer />
+            </div>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect } from "react";
+import {
+  initJob,
+  createUploadSession,
+  runUpload,
+  isAbortError,
+  type JobMode,
+  type UploadKind,
+  type UploadSession,
+  type UploadedMedia,
+} from "@/app/services/api";
+
+export type UploadStatus = "uploading" | "done" | "error";
+
+export interface FileUploadState {
+  status: UploadStatus;
+  loaded: number;
+  total: number;
+  bytesPerSecond: number;
+  error: string | null;
+}
+
+interface UploadEntry {
+  id: string;
+  file: File;
+  kind: UploadKind;
+}
+
+// Tracks presigned uploads for the files added in the wizard. Uploads start as
+// soon as a file is added and can be retried (resuming from the last completed
+// part) or awaited when the analysis starts. New files go under the current job
+// so the analysis can be finalized with every key at once; a later job reuses
+// the keys of files that are already in storage.
+export function useFileUploads() {
+  const [uploads, setUploads] = useState<Record<string, FileUploadState>>({});
+
+  const sessionsRef = useRef<Record<string, UploadSession>>({});
+  const tasksRef = useRef<Record<string, Promise<UploadedMedia>>>({});
+  const controllersRef = useRef<Record<string, AbortController>>({});
+  const failedRef = useRef<Set<string>>(new Set());
+  const jobRef = useRef<Promise<string> | null>(null);
+  const modeRef = useRef<JobMode>("standard");
+
+  const updateUpload = (id: string, patch: Partial<FileUploadState>) => {
+    setUploads((prev) => (prev[id] ? { ...prev, [id]: { ...prev[id], ...patch } } : prev));
+  };
+
+  // Initializes the job on first use and shares it between uploads. A failed
+  // init is forgotten so the next upload asks for a job again.
+  const getJobId = useCallback((): Promise<string> => {
+    if (!jobRef.current) {
+      const init = initJob(modeRef.current).then(({ jobId }) => jobId);
+      init.catch(() => {
+        if (jobRef.current === init) jobRef.current = null;
+      });
+      jobRef.current = init;
+    }
+    return jobRef.current;
+  }, []);
+
+  const startUpload = useCallback((entry: UploadEntry): Promise<UploadedMedia> => {
+    const controller = new AbortController();
+    controllersRef.current[entry.id] = controller;
+    failedRef.current.delete(entry.id);
+
+    setUploads((prev) => ({
+      ...prev,
+      [entry.id]: {
+        status: "uploading",
+        loaded: prev[entry.id]?.loaded ?? 0,
+        total: entry.file.size,
+        bytesPerSecond: 0,
+        error: null,
+      },
+    }));
+
+    const task = (async () => {
+      try {
+        let session = sessionsRef.current[entry.id];
+        if (!session) {
+          const jobId = await getJobId();
+          controller.signal.throwIfAborted();
+          session = createUploadSession(entry.file, entry.kind, jobId);
+          sessionsRef.current[entry.id] = session;
+        }
+
+        const objectKey = await runUpload(session, {
+          signal: controller.signal,
+          onProgress: ({ loaded, total, bytesPerSecond }) =>
+            updateUpload(entry.id, { loaded, total, bytesPerSecond }),
+        });
+
+        updateUpload(entry.id, { status: "done", loaded: entry.file.size, bytesPerSecond: 0 });
+        return { jobId: session.jobId, kind: session.kind, objectKey };
+      } catch (error) {
+        // A newer upload of the same entry owns its state now
+        if (controllersRef.current[entry.id] !== controller) throw error;
+        failedRef.current.add(entry.id);
+        if (!isAbortError(error)) {
+          console.error("Upload failed:", error);
+          updateUpload(entry.id, {
+            status: "error",
+            bytesPerSecond: 0,
+            error: error instanceof Error ? error.message : "Upload failed",
+          });
+        }
+        throw error;
+      }
+    })();
+
+    // Failures are surfaced through the upload state; callers that need the
+    // result await the task themselves.
+    task.catch(() => {});
+    tasksRef.current[entry.id] = task;
+    return task;
+  }, [getJobId]);
+
+  // Resolves once the file is in storage, restarting the upload if it failed.
+  // Aborting the signal stops waiting but leaves the upload running.
+  const ensureUploaded = useCallback(
+    (entry: UploadEntry, signal?: AbortSignal): Promise<UploadedMedia> => {
+      const existing: Promise<UploadedMedia> | undefined = tasksRef.current[entry.id];
+      const task = existing !== undefined && !failedRef.current.has(entry.id) ? existing : startUpload(entry);
+      if (!signal) return task;
+
+      return new Promise<UploadedMedia>((resolve, reject) => {
+        const onAbort = () => reject(new DOMException("The operation was aborted", "AbortError"));
+        if (signal.aborted) {
+          onAbort();
+          return;
+        }
+        signal.addEventListener("abort", onAbort, { once: true });
+        task.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+      });
+    },
+    [startUpload],
+  );
+
+  const cancelUpload = useCallback((id: string) => {
+    controllersRef.current[id]?.abort();
+    delete controllersRef.current[id];
+    delete sessionsRef.current[id];
+    delete tasksRef.current[id];
+    failedRef.current.delete(id);
+    setUploads((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  // Drops every upload and the job they belong to. Files awaited afterwards
+  // are uploaded again under a new job.
+  const resetUploads = useCallback(() => {
+    Object.entries(controllersRef.current).forEach(([id, controller]) => {
+      controller.abort();
+      delete controllersRef.current[id];
+    });
+    sessionsRef.current = {};
+    tasksRef.current = {};
+    failedRef.current.clear();
+    jobRef.current = null;
+    setUploads({});
+  }, []);
+
+  // Forgets the current job, e.g. once it was queued. Finished uploads are kept
+  // and queued again with the next job; only new files go under it.
+  const newJob = useCallback(() => {
+    jobRef.current = null;
+  }, []);
+
+  // The next job is initialized in this mode
+  const setJobMode = useCallback((mode: JobMode) => {
+    if (modeRef.current === mode) return;
+    modeRef.current = mode;
+    jobRef.current = null;
+  }, []);
+
+  // Abort in-flight uploads on unmount
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => Object.values(controllers).forEach((controller) => controller.abort());
+  }, []);
+
+  return { uploads, getJobId, newJob, startUpload, ensureUploaded, cancelUpload, resetUploads, setJobMode };
+}
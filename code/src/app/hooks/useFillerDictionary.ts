@@ -0,0 +1,42 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import type { LanguageHint } from "@/app/services/api";
+import {
+  buildFillerDictionary,
+  defaultFillersFor,
+  loadCustomFillers,
+  saveCustomFillers,
+  type CustomFillers,
+} from "@/app/services/fillers";
+
+interface StoredFillers {
+  language: LanguageHint | undefined;
+  custom: CustomFillers;
+}
+
+// The user's filler entries for a language on top of the built-in ones. Every
+// view of one analysis reads the same dictionary, so edits show up everywhere.
+export function useFillerDictionary(language?: LanguageHint) {
+  const [stored, setStored] = useState<StoredFillers>(() => ({ language, custom: loadCustomFillers(language) }));
+
+  // Each language keeps its own entries
+  if (stored.language !== language) {
+    setStored({ language, custom: loadCustomFillers(language) });
+  }
+
+  const fillerDictionary = useMemo(
+    () => buildFillerDictionary(stored.custom, defaultFillersFor(stored.language)),
+    [stored],
+  );
+
+  const updateCustomFillers = useCallback(
+    (custom: CustomFillers) => {
+      setStored({ language, custom });
+      saveCustomFillers(custom, language);
+    },
+    [language],
+  );
+
+  return { customFillers: stored.custom, fillerDictionary, updateCustomFillers };
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect } from "react";
+import { openLiveStream, type LanguageHint, type LiveFillerFlag, type LiveStream } from "@/app/services/api";
+import { createLiveMeter, type LiveCoachingSnapshot } from "@/app/services/liveCoaching";
+
+interface LiveCoachingOptions {
+  enabled: boolean;
+  streamFillers: boolean; // also send audio to the server for live filler flags
+  language?: LanguageHint;
+}
+
+const SAMPLE_INTERVAL_MS = 50;
+const SNAPSHOT_EVERY = 5; // samples between UI updates
+
+const EMPTY_SNAPSHOT: LiveCoachingSnapshot = { volumeDb: null, paceSpm: null, nudge: null };
+
+// Live delivery feedback for a recording in progress. `start` taps the
+// recorder's audio graph with its own analyser; `sendChunk` forwards recorded
+// chunks to the live stream when filler streaming is on.
+export function useLiveCoaching({ enabled, streamFillers, language }: LiveCoachingOptions) {
+  const [snapshot, setSnapshot] = useState<LiveCoachingSnapshot>(EMPTY_SNAPSHOT);
+  const [fillers, setFillers] = useState<LiveFillerFlag[]>([]);
+  const [streamError, setStreamError] = useState<string | null>(null);
+
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const streamRef = useRef<LiveStream | null>(null);
+
+  const stop = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    streamRef.current?.close();
+    streamRef.current = null;
+  }, []);
+
+  const start = useCallback(
+    (recorder: MediaRecorder, source: MediaStreamAudioSourceNode) => {
+      stop();
+      if (!enabled) return;
+
+      setSnapshot(EMPTY_SNAPSHOT);
+      setFillers([]);
+      setStreamError(null);
+
+      const analyser = source.context.createAnalyser();
+      analyser.fftSize = 2048;
+      source.connect(analyser);
+
+      const meter = createLiveMeter();
+      const samples = new Float32Array(analyser.fftSize);
+      let sampleCount = 0;
+      timerRef.current = setInterval(() => {
+        if (recorder.state !== "recording") return;
+        analyser.getFloatTimeDomainData(samples);
+        meter.push(samples, performance.now());
+        sampleCount++;
+        if (sampleCount % SNAPSHOT_EVERY === 0) setSnapshot(meter.snapshot());
+      }, SAMPLE_INTERVAL_MS);
+
+      if (streamFillers) {
+        streamRef.current = openLiveStream({
+          mimeType: recorder.mimeType,
+          language,
+          onFiller: (flag) => setFillers((prev) => [...prev, flag]),
+          onError: (error) => {
+            setStreamError(error.message);
+            streamRef.current?.close();
+            streamRef.current = null;
+          },
+        });
+      }
+    },
+    [enabled, streamFillers, language, stop],
+  );
+
+  const sendChunk = useCallback((chunk: Blob) => {
+    streamRef.current?.send(chunk);
+  }, []);
+
+  // Stop sampling and close the stream on unmount
+  useEffect(() => stop, [stop]);
+
+  return {
+    snapshot,
+    fillers: streamFillers ? fillers : null,
+    streamError,
+    start,
+    stop,
+    sendChunk,
+  };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { openPipelineEvents, type PipelineEvent } from "@/app/services/api";
+
+interface PipelineLog {
+  jobId: string | null;
+  events: PipelineEvent[];
+  error: string | null;
+}
+
+const EMPTY_LOG: PipelineLog = { jobId: null, events: [], error: null };
+
+// Pipeline events for the job being processed. The log is keyed by job id so
+// switching jobs starts from an empty list without resetting state in the effect.
+export function usePipelineEvents(jobId: string | null) {
+  const [log, setLog] = useState<PipelineLog>(EMPTY_LOG);
+
+  useEffect(() => {
+    if (!jobId) return;
+    const stream = openPipelineEvents(jobId, {
+      onEvent: (event) =>
+        setLog((prev) =>
+          prev.jobId === jobId
+            ? { ...prev, events: [...prev.events, event] }
+            : { jobId, events: [event], error: null },
+        ),
+      onError: (error) =>
+        setLog((prev) => ({ jobId, events: prev.jobId === jobId ? prev.events : [], error: error.message })),
+    });
+    return () => stream.close();
+  }, [jobId]);
+
+  const current = log.jobId === jobId ? log : EMPTY_LOG;
+  return { events: current.events, error: current.error };
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { isAbortError } from "@/app/services/api";
+import { renderSlideImages, revokeSlideImages } from "@/app/services/slideImages";
+
+interface RenderResult {
+  file: Blob;
+  images: string[];
+  error: string | null;
+}
+
+// Renders the deck's pages to images and releases them when the file changes
+// or the component unmounts. `images` is null until rendering finishes.
+export function useSlideImages(file: Blob | null) {
+  const [result, setResult] = useState<RenderResult | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+
+    const controller = new AbortController();
+    let rendered: string[] = [];
+
+    renderSlideImages(file, controller.signal)
+      .then((images) => {
+        if (controller.signal.aborted) {
+          revokeSlideImages(images);
+          return;
+        }
+        rendered = images;
+        setResult({ file, images, error: null });
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Failed to render slides:", error);
+        setResult({ file, images: [], error: "Couldn't render slide previews" });
+      });
+
+    return () => {
+      controller.abort();
+      revokeSlideImages(rendered);
+    };
+  }, [file]);
+
+  // Ignore a result that belongs to a previous file
+  const current = result && result.file === file ? result : null;
+
+  return {
+    images: current?.images ?? null,
+    isRendering: file !== null && current === null,
+    error: current?.error ?? null,
+  };
+}
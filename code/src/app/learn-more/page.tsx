@@ -94,6 +94,7 @@ export default function LearnMore() {
           navItems={[
             { label: "Home", onClick: () => router.push("/") },
             { label: "Learn More", onClick: () => router.push("/learn-more") },
+            { label: "History", onClick: () => router.push("/history") },
             { label: "Analyze", onClick: () => router.push("/#analyze") },
           ]}
           onThemeToggle={toggleTheme}
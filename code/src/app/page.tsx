@@ -3,32 +3,117 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { Navbar } from "@/app/components/Navbar";
 import { HeroSection } from "@/app/components/HeroSection";
-import { SpeechAnalysisResults } from "@/app/components/SpeechAnalysisResults";
-import { PDFAnalysisResults } from "@/app/components/PDFAnalysisResults";
 import { AudioRecorder } from "@/app/components/AudioRecorder";
-import { KaraokePlayback } from "@/app/components/KaraokePlayback";
+import { VideoRecorder } from "@/app/components/VideoRecorder";
+import { AnalysisResultsView } from "@/app/components/AnalysisResultsView";
+import { AgentMeshEventLog } from "@/app/components/AgentMeshEventLog";
+import { IDLE_PART, type AnalysisPartState } from "@/app/components/AnalysisPartStatus";
+import {
+  AnalysisRecoveryPanel,
+  type AnalysisFailure,
+  type AnalysisPart,
+  type RecoveryAction,
+} from "@/app/components/AnalysisRecoveryPanel";
 import { InteractiveBackground } from "@/app/components/InteractiveBackground";
+import { FileUploadProgress } from "@/app/components/FileUploadProgress";
+import { SessionTransfer } from "@/app/components/SessionTransfer";
+import { useFileUploads } from "@/app/hooks/useFileUploads";
+import { saveAnalysis, resultsPath, type AnalysisRecord, type AnalysisType } from "@/app/services/history";
 import { useRouter } from "next/navigation";
 import { useTheme } from "@/app/components/ThemeContext";
 import {
-  analyzeAudio,
-  analyzePDF,
+  analyzeUploads,
+  isAbortError,
+  ApiError,
+  toApiError,
+  type AudienceType,
+  type AnalysisResults,
   type AudioAnalysisResponse,
+  type LanguageHint,
   type PDFAnalysisResponse,
+  type PitchContext,
+  type UploadKind,
+  type UploadedMedia,
 } from "@/app/services/api";
+import { AUDIENCE_OPTIONS, TIME_LIMIT_OPTIONS, formatTimeLimit, normalizePitchContext } from "@/app/services/pitchContext";
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS } from "@/app/services/languages";
+import { MAX_WAV_DURATION_SEC, preprocessAudio, type PreprocessOptions } from "@/app/services/audioPreprocessing";
 
 type FileType = "audio" | "video" | "pdf";
 
+type PartOutcome<T> = { jobId: string; result: T };
+
+type AnalyzedJob = { jobId: string; results: AnalysisResults };
+
 type FileWithPreview = {
   file: File;
   id: string;
   type: FileType;
 };
 
-type AnalysisType = "speech" | "slides" | "both";
 type AudioMethod = "upload" | "record";
+type RecordMode = "audio" | "video";
 type WizardStep = "type" | "audio-method" | "audio-upload" | "audio-record" | "slides" | "context" | "analyzing" | "results";
 
+const analyzingSteps: Record<AnalysisPart, string> = {
+  speech: "Analyzing speech...",
+  deck: "Analyzing slide deck...",
+};
+
+// Formats the backend takes as-is. Anything else the browser can decode is
+// converted to compact speech audio first.
+const uploadableTypes = ["audio/mpeg", "audio/mp3", "audio/wav", "video/mp4", "audio/webm", "video/webm"];
+const pdfTypes = ["application/pdf"];
+const audioExtensions = [".mp3", ".wav", ".webm", ".weba", ".m4a", ".aac", ".ogg", ".oga", ".opus", ".flac"];
+const videoExtensions = [".mp4", ".mov", ".m4v", ".mkv"];
+const pdfExtensions = [".pdf"];
+const mediaAccept = ["audio/*", "video/*", ...audioExtensions, ...videoExtensions].join(",");
+
+const hasExtension = (file: File, extensions: string[]) =>
+  extensions.some((ext) => file.name.toLowerCase().endsWith(ext));
+
+const validateFile = (file: File): boolean => {
+  const isMediaType = file.type.startsWith("audio/") || file.type.startsWith("video/");
+  const isMediaExtension = hasExtension(file, audioExtensions) || hasExtension(file, videoExtensions);
+  const isPdfType = pdfTypes.includes(file.type);
+  const isPdfExtension = hasExtension(file, pdfExtensions);
+  return isMediaType || isMediaExtension || isPdfType || isPdfExtension;
+};
+
+const getFileType = (file: File): FileType => {
+  if (file.type === "application/pdf" || hasExtension(file, pdfExtensions)) {
+    return "pdf";
+  }
+  if (file.type.startsWith("video/")) {
+    return "video";
+  }
+  if (file.type.startsWith("audio/") || hasExtension(file, audioExtensions)) {
+    return "audio";
+  }
+  return "video";
+};
+
+// Audio is always preprocessed. Videos keep their picture for delivery
+// analysis when the backend takes them, and are reduced to audio otherwise.
+const needsPreprocessing = (file: File, fileType: FileType): boolean => {
+  if (fileType === "audio") return true;
+  if (file.type) return !uploadableTypes.includes(file.type);
+  return !hasExtension(file, [".mp4", ".webm"]);
+};
+
+const isSpeechEntry = (entry: FileWithPreview) => entry.type === "audio" || entry.type === "video";
+
+const uploadKindFor = (type: FileType): UploadKind => {
+  if (type === "pdf") return "deck";
+  return type;
+};
+
+const toUploadEntry = (entry: FileWithPreview) => ({
+  id: entry.id,
+  file: entry.file,
+  kind: uploadKindFor(entry.type),
+});
+
 export default function Home() {
   const router = useRouter();
   const { isDark, toggleTheme } = useTheme();
@@ -37,6 +122,7 @@ export default function Home() {
   const [currentStep, setCurrentStep] = useState<WizardStep>("type");
   const [analysisType, setAnalysisType] = useState<AnalysisType | null>(null);
   const [audioMethod, setAudioMethod] = useState<AudioMethod | null>(null);
+  const [recordMode, setRecordMode] = useState<RecordMode>("audio");
   const [slideDirection, setSlideDirection] = useState<"forward" | "backward">("forward");
 
   // File state
@@ -44,41 +130,77 @@ export default function Home() {
   const [isDragging, setIsDragging] = useState(false);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [audienceType, setAudienceType] = useState<AudienceType | null>(null);
+  const [timeLimitSec, setTimeLimitSec] = useState<number | null>(null);
+  const [autoStop, setAutoStop] = useState(false);
+  const [liveCoaching, setLiveCoaching] = useState(false);
+  const [streamFillers, setStreamFillers] = useState(false);
+  const [goal, setGoal] = useState("");
+  const [languageHint, setLanguageHint] = useState<LanguageHint>(DEFAULT_LANGUAGE);
+  const [agentMesh, setAgentMesh] = useState(false);
   const [recordedAudioUrl, setRecordedAudioUrl] = useState<string | null>(null);
+  const [preparingAudio, setPreparingAudio] = useState(false);
+  const [audioFileError, setAudioFileError] = useState<string | null>(null);
 
   // Analysis state
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisComplete, setAnalysisComplete] = useState(false);
   const [audioResult, setAudioResult] = useState<AudioAnalysisResponse | null>(null);
   const [pdfResult, setPdfResult] = useState<PDFAnalysisResponse | null>(null);
-  const [analysisError, setAnalysisError] = useState<string | null>(null);
-  const [analysisProgress, setAnalysisProgress] = useState(0);
-  const [currentAnalysisStep, setCurrentAnalysisStep] = useState("");
+  const [sharePath, setSharePath] = useState<string | null>(null);
+  const [analysisJobId, setAnalysisJobId] = useState<string | null>(null);
+  const [pitchContext, setPitchContext] = useState<PitchContext | null>(null);
+  const [analysisFailures, setAnalysisFailures] = useState<AnalysisFailure[]>([]);
+  const [speechPart, setSpeechPart] = useState<AnalysisPartState>(IDLE_PART);
+  const [deckPart, setDeckPart] = useState<AnalysisPartState>(IDLE_PART);
+
+  // Upload state
+  const { uploads, getJobId, newJob, startUpload, ensureUploaded, cancelUpload, resetUploads, setJobMode } =
+    useFileUploads();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+
+  // Swaps in newly added files for the ones they replace, stopping the replaced
+  // uploads so they don't keep running in the background
+  const replaceFiles = useCallback(
+    (isReplaced: (entry: FileWithPreview) => boolean, added: FileWithPreview[]) => {
+      files.filter(isReplaced).forEach((entry) => cancelUpload(entry.id));
+      setFiles((prev) => [...prev.filter((entry) => !isReplaced(entry)), ...added]);
+      added.forEach((entry) => startUpload(toUploadEntry(entry)));
+    },
+    [files, cancelUpload, startUpload],
+  );
 
-  const audioTypes = ["audio/mpeg", "audio/mp3", "audio/wav", "video/mp4", "audio/webm", "video/webm"];
-  const pdfTypes = ["application/pdf"];
-  const audioExtensions = [".mp3", ".mp4", ".wav", ".webm"];
-  const pdfExtensions = [".pdf"];
-
-  const validateFile = (file: File): boolean => {
-    const isAudioType = audioTypes.includes(file.type);
-    const isAudioExtension = audioExtensions.some((ext) => file.name.toLowerCase().endsWith(ext));
-    const isPdfType = pdfTypes.includes(file.type);
-    const isPdfExtension = pdfExtensions.some((ext) => file.name.toLowerCase().endsWith(ext));
-    return isAudioType || isAudioExtension || isPdfType || isPdfExtension;
-  };
+  const prepareAudioFile = useCallback(
+    async (file: File) => {
+      setPreparingAudio(true);
+      setAudioFileError(null);
+      let prepared: File;
+      try {
+        prepared = (await preprocessAudio(file)).file;
+      } catch (error) {
+        console.error("Audio preprocessing failed:", error);
+        if (!uploadableTypes.includes(file.type)) {
+          setAudioFileError(error instanceof Error ? error.message : "Couldn't read this recording.");
+          setPreparingAudio(false);
+          return;
+        }
+        // The backend can still take the original
+        prepared = file;
+      }
 
-  const getFileType = (file: File): FileType => {
-    if (file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")) {
-      return "pdf";
-    }
-    if (file.type.startsWith("audio/") || file.name.toLowerCase().endsWith(".mp3") || file.name.toLowerCase().endsWith(".wav")) {
-      return "audio";
-    }
-    return "video";
-  };
+      const entry: FileWithPreview = {
+        file: prepared,
+        id: `${prepared.name}-${file.lastModified}`,
+        type: prepared === file ? getFileType(file) : "audio",
+      };
+      setRecordedAudioUrl(URL.createObjectURL(prepared));
+      setPreparingAudio(false);
+      replaceFiles(isSpeechEntry, [entry]);
+    },
+    [replaceFiles],
+  );
 
   const handleFiles = useCallback(
     (fileList: FileList, targetType: "audio" | "pdf") => {
@@ -89,6 +211,10 @@ export default function Home() {
           const fileType = getFileType(file);
 
           if (targetType === "audio" && (fileType === "audio" || fileType === "video")) {
+            if (needsPreprocessing(file, fileType)) {
+              prepareAudioFile(file);
+              return;
+            }
             newFiles.push({
               file,
               id: `${file.name}-${Date.now()}-${Math.random()}`,
@@ -107,15 +233,10 @@ export default function Home() {
       });
 
       if (newFiles.length > 0) {
-        setFiles((prev) => {
-          const filtered = prev.filter(f =>
-            targetType === "audio" ? f.type === "pdf" : (f.type === "audio" || f.type === "video")
-          );
-          return [...filtered, ...newFiles];
-        });
+        replaceFiles((entry) => (targetType === "audio" ? isSpeechEntry(entry) : entry.type === "pdf"), newFiles);
       }
     },
-    [],
+    [replaceFiles, prepareAudioFile],
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -140,14 +261,13 @@ export default function Home() {
   );
 
   const handleRecordingComplete = (file: File, audioUrl: string) => {
-    setFiles((prev) => prev.filter((f) => f.type !== "audio" && f.type !== "video"));
     const newFile: FileWithPreview = {
       file,
       id: `recording-${Date.now()}`,
-      type: "audio",
+      type: recordMode,
     };
-    setFiles((prev) => [...prev, newFile]);
     setRecordedAudioUrl(audioUrl);
+    replaceFiles(isSpeechEntry, [newFile]);
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -242,79 +362,276 @@ export default function Home() {
     }
   };
 
-  const handleAnalyze = async () => {
-    goToStep("analyzing", "forward");
-    setIsAnalyzing(true);
-    setAnalysisError(null);
-    setAnalysisProgress(0);
-    setAudioResult(null);
-    setPdfResult(null);
+  const updatePart = (part: AnalysisPart, patch: Partial<AnalysisPartState>) => {
+    const apply = (prev: AnalysisPartState) => ({ ...prev, ...patch });
+    if (part === "speech") setSpeechPart(apply);
+    else setDeckPart(apply);
+  };
 
+  // Waits for one half's upload and then for the shared job, picking that
+  // half's result and mirroring its progress and any failure into its state
+  const runPart = async <T,>(
+    part: AnalysisPart,
+    upload: Promise<UploadedMedia>,
+    job: Promise<AnalyzedJob>,
+    pick: (results: AnalysisResults) => T | null,
+  ): Promise<PartOutcome<T>> => {
+    updatePart(part, {
+      ...IDLE_PART,
+      status: "running",
+      step: part === "speech" ? "Uploading recording..." : "Uploading slide deck...",
+    });
     try {
-      const totalSteps = (audioVideoFile ? 1 : 0) + (pdfFile ? 1 : 0);
-      let completedSteps = 0;
-
-      if (audioVideoFile) {
-        setCurrentAnalysisStep("Analyzing speech...");
-        const progressInterval = setInterval(() => {
-          setAnalysisProgress((prev) => {
-            const target = ((completedSteps + 0.9) / totalSteps) * 100;
-            if (prev >= target) {
-              clearInterval(progressInterval);
-              return prev;
-            }
-            return prev + Math.random() * 10;
-          });
-        }, 300);
-
-        const result = await analyzeAudio(audioVideoFile.file);
-        clearInterval(progressInterval);
-        setAudioResult(result);
-        completedSteps++;
-        setAnalysisProgress((completedSteps / totalSteps) * 100);
+      await upload;
+      updatePart(part, { step: analyzingSteps[part] });
+      const { jobId, results } = await job;
+      const result = pick(results);
+      if (!result) {
+        throw new ApiError(
+          "server",
+          part === "speech" ? "The analysis returned no speech results." : "The analysis returned no slide deck results.",
+        );
       }
+      updatePart(part, { status: "done", progress: 100, step: null });
+      return { jobId, result };
+    } catch (error) {
+      updatePart(part, isAbortError(error)
+        ? IDLE_PART
+        : { status: "error", step: null, error: toApiError(error, "Failed to analyze. Please try again.") });
+      throw error;
+    }
+  };
 
-      if (pdfFile) {
-        setCurrentAnalysisStep("Analyzing slide deck...");
-        const progressInterval = setInterval(() => {
-          setAnalysisProgress((prev) => {
-            const target = ((completedSteps + 0.9) / totalSteps) * 100;
-            if (prev >= target) {
-              clearInterval(progressInterval);
-              return prev;
-            }
-            return prev + Math.random() * 10;
-          });
-        }, 300);
-
-        const result = await analyzePDF(pdfFile.file);
-        clearInterval(progressInterval);
-        setPdfResult(result);
-        completedSteps++;
-        setAnalysisProgress(100);
-      }
+  // Keep a copy in the local history; a storage failure shouldn't hide the results.
+  // A half retried later is merged into the record saved for the first result.
+  const saveResults = (
+    speech: PartOutcome<AudioAnalysisResponse> | null,
+    deck: PartOutcome<PDFAnalysisResponse> | null,
+    speechFile: FileWithPreview | undefined,
+    context: PitchContext | null,
+    existingId: string | null,
+  ) => {
+    const id = existingId ?? speech?.jobId ?? deck?.jobId;
+    if (!id) return;
+    const record: AnalysisRecord = {
+      id,
+      createdAt: new Date().toISOString(),
+      title,
+      description,
+      analysisType: speech && deck ? "both" : speech ? "speech" : "slides",
+      speechJobId: speech?.jobId ?? null,
+      deckJobId: deck?.jobId ?? null,
+      audioResult: speech?.result ?? null,
+      pdfResult: deck?.result ?? null,
+      media: speechFile?.file ?? null,
+      mediaType: speechFile ? (speechFile.type === "video" ? "video" : "audio") : null,
+      deck: pdfFile?.file ?? null,
+      context,
+    };
+    setAnalysisJobId(id);
+    saveAnalysis(record)
+      .then(() => setSharePath(resultsPath(record)))
+      .catch((error) => console.error("Failed to save analysis to history:", error));
+  };
 
+  // The recording and the deck are uploaded under one job and analyzed
+  // together. A half whose upload fails is reported on its own while the other
+  // is still analyzed; only when nothing succeeded does the user go back to the
+  // form. `reuseCompleted` keeps a half
+  // that already finished so only the failed one runs again, and `speechFile`
+  // replaces the recording before the state update lands.
+  const handleAnalyze = async ({ reuseCompleted = false, speechFile = audioVideoFile } = {}) => {
+    const controller = new AbortController();
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = controller;
+    const { signal } = controller;
+
+    const reusedSpeech = reuseCompleted && audioResult && speechPart.jobId
+      ? { jobId: speechPart.jobId, result: audioResult }
+      : null;
+    const reusedDeck = reuseCompleted && pdfResult && deckPart.jobId
+      ? { jobId: deckPart.jobId, result: pdfResult }
+      : null;
+    const existingId = reusedSpeech || reusedDeck ? analysisJobId : null;
+
+    goToStep(reusedSpeech || reusedDeck ? "results" : "analyzing", "forward");
+    setIsAnalyzing(true);
+    setAnalysisFailures([]);
+    setAudioResult(reusedSpeech?.result ?? null);
+    setPdfResult(reusedDeck?.result ?? null);
+    if (!reusedSpeech) setSpeechPart(IDLE_PART);
+    if (!reusedDeck) setDeckPart(IDLE_PART);
+    if (!existingId) setAnalysisJobId(null);
+
+    const context = normalizePitchContext({ title, description, audienceType, timeLimitSec, goal });
+    setPitchContext(context);
+
+    const showResults = () => {
+      if (!signal.aborted) goToStep("results", "forward");
+    };
+
+    const speechUpload = !reusedSpeech && speechFile ? ensureUploaded(toUploadEntry(speechFile), signal) : null;
+    const deckUpload = !reusedDeck && pdfFile ? ensureUploaded(toUploadEntry(pdfFile), signal) : null;
+
+    // Queues the job with whatever finished uploading. Files uploaded for an
+    // earlier job are queued again by their existing keys.
+    const jobTask = (async (): Promise<AnalyzedJob> => {
+      const [speechMedia, deckMedia] = await Promise.allSettled([speechUpload, deckUpload]);
+      const uploaded = ([["speech", speechMedia], ["deck", deckMedia]] as const).flatMap(([part, outcome]) =>
+        outcome.status === "fulfilled" && outcome.value ? [{ part, media: outcome.value }] : []);
+      if (uploaded.length === 0) throw new ApiError("validation", "No files were uploaded.");
+      const jobId = await getJobId();
+      signal.throwIfAborted();
+      // The server takes a job id only once, so the next run gets a new one
+      newJob();
+      uploaded.forEach(({ part }) => updatePart(part, { jobId }));
+      const results = await analyzeUploads(jobId, uploaded.map(({ media }) => media), {
+        signal,
+        context,
+        languageHint,
+        onProgress: (status) => uploaded.forEach(({ part }) =>
+          updatePart(part, { progress: status.progress, step: status.step || analyzingSteps[part] })),
+      });
+      return { jobId, results };
+    })();
+    // Each half reports the failure itself
+    jobTask.catch(() => {});
+
+    const speechTask: Promise<PartOutcome<AudioAnalysisResponse> | null> = reusedSpeech
+      ? Promise.resolve(reusedSpeech)
+      : speechUpload
+        ? runPart("speech", speechUpload, jobTask, ({ audio }) =>
+          // Keep the language on the result so reopened analyses use the same fillers and pace bands
+          audio && { ...audio, language: audio.language ?? languageHint },
+        ).then((outcome) => {
+          setAudioResult(outcome.result);
+          showResults();
+          return outcome;
+        })
+        : Promise.resolve(null);
+
+    const deckTask: Promise<PartOutcome<PDFAnalysisResponse> | null> = reusedDeck
+      ? Promise.resolve(reusedDeck)
+      : deckUpload
+        ? runPart("deck", deckUpload, jobTask, ({ pdf }) => pdf).then((outcome) => {
+          setPdfResult(outcome.result);
+          showResults();
+          return outcome;
+        })
+        : Promise.resolve(null);
+
+    const [speech, deck] = await Promise.allSettled([speechTask, deckTask]);
+    if (analysisControllerRef.current === controller) {
+      analysisControllerRef.current = null;
+    }
+    setIsAnalyzing(false);
+    if (signal.aborted) return;
+
+    const speechOutcome = speech.status === "fulfilled" ? speech.value : null;
+    const deckOutcome = deck.status === "fulfilled" ? deck.value : null;
+    if (speechOutcome || deckOutcome) {
+      saveResults(speechOutcome, deckOutcome, speechFile, context, existingId);
       setAnalysisComplete(true);
-      goToStep("results", "forward");
-    } catch (error) {
-      console.error("Analysis failed:", error);
-      setAnalysisError(error instanceof Error ? error.message : "Failed to analyze. Please try again.");
-      goToStep("context", "backward");
-    } finally {
-      setIsAnalyzing(false);
-      setCurrentAnalysisStep("");
+      return;
+    }
+
+    // Show each half's failure, but only once when the shared job failed for both
+    const failures: [AnalysisPart, unknown][] = [];
+    if (speech.status === "rejected") failures.push(["speech", speech.reason]);
+    if (deck.status === "rejected" && !failures.some(([, reason]) => reason === deck.reason)) {
+      failures.push(["deck", deck.reason]);
     }
+    failures.forEach(([part, reason]) => console.error(`Analysis failed (${part}):`, reason));
+    setAnalysisFailures(failures.map(([part, reason]) => ({
+      error: toApiError(reason, "Failed to analyze. Please try again."),
+      part,
+      otherPartDone: false,
+    })));
+    goToStep("context", "backward");
   };
 
+  // Swaps the recording for a converted copy and analyzes again, keeping the
+  // deck result if it already finished
+  const replaceRecording = async (options: PreprocessOptions = {}) => {
+    if (!audioVideoFile) return;
+    const { file } = await preprocessAudio(audioVideoFile.file, options);
+    const entry: FileWithPreview = { file, id: `${file.name}-${file.lastModified}`, type: "audio" };
+    cancelUpload(audioVideoFile.id);
+    setFiles((prev) => [...prev.filter((f) => f.id !== audioVideoFile.id), entry]);
+    setRecordedAudioUrl(URL.createObjectURL(file));
+    // The analysis uploads the new recording
+    await handleAnalyze({ reuseCompleted: true, speechFile: entry });
+  };
+
+  // Overall progress across whichever halves are part of this run
+  const activeParts = [speechPart, deckPart].filter((part) => part.status !== "idle");
+  const analysisProgress = activeParts.length > 0
+    ? activeParts.reduce((sum, part) => sum + (part.status === "done" ? 100 : part.progress), 0) / activeParts.length
+    : 0;
+  const currentAnalysisStep = activeParts
+    .filter((part) => part.status === "running" && part.step)
+    .map((part) => part.step)
+    .join(" · ");
+  // Both halves share one job, so this is usually a single id
+  const processingJobIds = [...new Set(activeParts.flatMap((part) => (part.jobId ? [part.jobId] : [])))];
+
+  const trimToSec = Math.min(timeLimitSec ?? MAX_WAV_DURATION_SEC, MAX_WAV_DURATION_SEC);
+
+  const handleRecoveryAction = async (action: RecoveryAction, part: AnalysisPart) => {
+    switch (action) {
+      case "retry":
+        return handleAnalyze();
+      case "retry_failed":
+        return handleAnalyze({ reuseCompleted: true });
+      case "reencode":
+        return replaceRecording();
+      case "trim":
+        return replaceRecording({ maxDurationSec: trimToSec });
+      case "choose_file":
+        setAnalysisFailures([]);
+        if (part === "deck") goToStep("slides", "backward");
+        else goToStep(audioMethod === "upload" ? "audio-upload" : "audio-record", "backward");
+        return;
+    }
+  };
+
+  // Agent mesh jobs log each pipeline stage as it runs
+  const handleAgentMeshChange = (enabled: boolean) => {
+    setAgentMesh(enabled);
+    setJobMode(enabled ? "agent_mesh" : "standard");
+  };
+
+  const handleCancelAnalysis = () => {
+    analysisControllerRef.current?.abort();
+    setSpeechPart(IDLE_PART);
+    setDeckPart(IDLE_PART);
+    goToStep("context", "backward");
+  };
+
+  // Stop polling if the user navigates away mid-analysis
+  useEffect(() => {
+    return () => analysisControllerRef.current?.abort();
+  }, []);
+
   const handleReset = () => {
+    analysisControllerRef.current?.abort();
+    resetUploads();
     setFiles([]);
     setTitle("");
     setDescription("");
+    setAudienceType(null);
+    setTimeLimitSec(null);
+    setAutoStop(false);
+    setGoal("");
+    setPitchContext(null);
     setAnalysisComplete(false);
     setAudioResult(null);
     setPdfResult(null);
-    setAnalysisError(null);
-    setAnalysisProgress(0);
+    setSharePath(null);
+    setAnalysisJobId(null);
+    setAnalysisFailures([]);
+    setSpeechPart(IDLE_PART);
+    setDeckPart(IDLE_PART);
     setRecordedAudioUrl(null);
     setAnalysisType(null);
     setAudioMethod(null);
@@ -363,6 +680,7 @@ export default function Home() {
           navItems={[
             { label: "Home", onClick: () => router.push("/") },
             { label: "Learn More", onClick: () => router.push("/learn-more") },
+            { label: "History", onClick: () => router.push("/history") },
             { label: "Analyze", onClick: () => document.getElementById("analyze")?.scrollIntoView({ behavior: "smooth" }) },
           ]}
           onThemeToggle={toggleTheme}
@@ -524,7 +842,7 @@ export default function Home() {
                           </svg>
                         </div>
                         <h3 className="text-lg font-semibold text-[var(--text-primary)] mb-1">Upload File</h3>
-                        <p className="text-sm text-[var(--text-primary)]/50">MP3, WAV, or MP4</p>
+                        <p className="text-sm text-[var(--text-primary)]/50">Any audio or video file</p>
                         <div className={`mt-4 w-6 h-6 rounded-full border-2 flex items-center justify-center transition-colors mx-auto ${
                           audioMethod === "upload" ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]" : "border-[var(--text-primary)]/30"
                         }`}>
@@ -575,12 +893,18 @@ export default function Home() {
                       </p>
                     </div>
 
-                    {!audioVideoFile ? (
+                    {preparingAudio ? (
+                      <div className="wizard-dropzone">
+                        <span className="block w-10 h-10 mx-auto mb-6 rounded-full border-2 border-[var(--accent-blue)] border-t-transparent animate-spin" />
+                        <p className="text-[var(--text-primary)] font-medium mb-2">Preparing audio...</p>
+                        <p className="text-sm text-[var(--text-primary)]/40">Converting to compact speech audio before upload</p>
+                      </div>
+                    ) : !audioVideoFile ? (
                       <div
                         onClick={() => {
                           const input = document.createElement("input");
                           input.type = "file";
-                          input.accept = ".mp3,.mp4,.wav,.webm,audio/mpeg,audio/wav,video/mp4,audio/webm,video/webm";
+                          input.accept = mediaAccept;
                           input.onchange = (e) => {
                             const files = (e.target as HTMLInputElement).files;
                             if (files) handleFiles(files, "audio");
@@ -599,7 +923,7 @@ export default function Home() {
                         </div>
                         <p className="text-[var(--text-primary)] font-medium mb-2">Drop your audio file here</p>
                         <p className="text-sm text-[var(--text-primary)]/40">or click to browse</p>
-                        <p className="text-xs text-[var(--text-primary)]/30 mt-4">Supports MP3, WAV, MP4, WebM</p>
+                        <p className="text-xs text-[var(--text-primary)]/30 mt-4">Supports any audio or video format your browser can play</p>
                       </div>
                     ) : (
                       <div className="wizard-file-preview">
@@ -615,6 +939,7 @@ export default function Home() {
                           </div>
                           <button
                             onClick={() => {
+                              cancelUpload(audioVideoFile.id);
                               setFiles(prev => prev.filter(f => f.id !== audioVideoFile.id));
                               setRecordedAudioUrl(null);
                             }}
@@ -625,6 +950,16 @@ export default function Home() {
                             </svg>
                           </button>
                         </div>
+                        <FileUploadProgress
+                          upload={uploads[audioVideoFile.id]}
+                          onRetry={() => startUpload(toUploadEntry(audioVideoFile))}
+                        />
+                      </div>
+                    )}
+
+                    {audioFileError && !preparingAudio && !audioVideoFile && (
+                      <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+                        <p className="text-red-400 text-sm">{audioFileError}</p>
                       </div>
                     )}
                   </div>
@@ -642,9 +977,115 @@ export default function Home() {
                       </p>
                     </div>
 
+                    {!audioVideoFile && (
+                      <div className="flex justify-center">
+                        <div className="segment-control">
+                          <button
+                            onClick={() => setRecordMode("audio")}
+                            className={`segment-btn ${recordMode === "audio" ? "segment-btn-active" : ""}`}
+                          >
+                            Audio only
+                          </button>
+                          <button
+                            onClick={() => setRecordMode("video")}
+                            className={`segment-btn ${recordMode === "video" ? "segment-btn-active" : ""}`}
+                          >
+                            Video
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {!audioVideoFile && (
+                      <div className="flex flex-wrap items-center justify-center gap-4 text-sm">
+                        <label htmlFor="record-time-limit" className="flex items-center gap-2 text-[var(--text-primary)]/60">
+                          Time limit
+                          <select
+                            id="record-time-limit"
+                            value={timeLimitSec ?? ""}
+                            onChange={(e) => setTimeLimitSec(e.target.value ? Number(e.target.value) : null)}
+                            className="px-3 py-1.5 rounded-lg bg-[var(--bg-tertiary)] border border-[var(--border-primary)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-blue)]"
+                          >
+                            <option value="">None</option>
+                            {TIME_LIMIT_OPTIONS.map((seconds) => (
+                              <option key={seconds} value={seconds}>{formatTimeLimit(seconds)}</option>
+                            ))}
+                          </select>
+                        </label>
+                        {timeLimitSec && (
+                          <label className="flex items-center gap-2 text-[var(--text-primary)]/60 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={autoStop}
+                              onChange={(e) => setAutoStop(e.target.checked)}
+                              className="accent-[var(--accent-primary)]"
+                            />
+                            Stop automatically at the limit
+                          </label>
+                        )}
+                        {recordMode === "audio" && (
+                          <label className="flex items-center gap-2 text-[var(--text-primary)]/60 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={liveCoaching}
+                              onChange={(e) => setLiveCoaching(e.target.checked)}
+                              className="accent-[var(--accent-primary)]"
+                            />
+                            Live coaching
+                          </label>
+                        )}
+                        {recordMode === "audio" && liveCoaching && (
+                          <label htmlFor="record-language" className="flex items-center gap-2 text-[var(--text-primary)]/60">
+                            Language
+                            <select
+                              id="record-language"
+                              value={languageHint}
+                              onChange={(e) => setLanguageHint(e.target.value as LanguageHint)}
+                              className="px-3 py-1.5 rounded-lg bg-[var(--bg-tertiary)] border border-[var(--border-primary)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-blue)]"
+                            >
+                              {LANGUAGE_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          </label>
+                        )}
+                        {recordMode === "audio" && liveCoaching && (
+                          <label
+                            className="flex items-center gap-2 text-[var(--text-primary)]/60 cursor-pointer"
+                            title="Sends your audio to the server while you speak"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={streamFillers}
+                              onChange={(e) => setStreamFillers(e.target.checked)}
+                              className="accent-[var(--accent-primary)]"
+                            />
+                            Flag filler words live
+                          </label>
+                        )}
+                      </div>
+                    )}
+
                     {!audioVideoFile ? (
                       <div className="wizard-recorder">
-                        <AudioRecorder onRecordingComplete={handleRecordingComplete} disabled={isAnalyzing} />
+                        {recordMode === "video" ? (
+                          <VideoRecorder
+                            onRecordingComplete={handleRecordingComplete}
+                            disabled={isAnalyzing}
+                            timeLimitSec={timeLimitSec}
+                            autoStop={autoStop}
+                          />
+                        ) : (
+                          <AudioRecorder
+                            onRecordingComplete={handleRecordingComplete}
+                            disabled={isAnalyzing}
+                            timeLimitSec={timeLimitSec}
+                            autoStop={autoStop}
+                            liveCoaching={liveCoaching}
+                            streamFillers={streamFillers}
+                            language={languageHint}
+                          />
+                        )}
                       </div>
                     ) : (
                       <div className="wizard-file-preview">
@@ -660,6 +1101,7 @@ export default function Home() {
                           </div>
                           <button
                             onClick={() => {
+                              cancelUpload(audioVideoFile.id);
                               setFiles(prev => prev.filter(f => f.id !== audioVideoFile.id));
                               setRecordedAudioUrl(null);
                             }}
@@ -670,6 +1112,10 @@ export default function Home() {
                             </svg>
                           </button>
                         </div>
+                        <FileUploadProgress
+                          upload={uploads[audioVideoFile.id]}
+                          onRetry={() => startUpload(toUploadEntry(audioVideoFile))}
+                        />
                       </div>
                     )}
                   </div>
@@ -725,7 +1171,10 @@ export default function Home() {
                             <p className="text-sm text-[var(--text-primary)]/50">{formatFileSize(pdfFile.file.size)}</p>
                           </div>
                           <button
-                            onClick={() => setFiles(prev => prev.filter(f => f.id !== pdfFile.id))}
+                            onClick={() => {
+                              cancelUpload(pdfFile.id);
+                              setFiles(prev => prev.filter(f => f.id !== pdfFile.id));
+                            }}
                             className="p-2 rounded-lg text-[var(--text-primary)]/40 hover:text-[var(--text-primary)] hover:bg-[var(--text-primary)]/10 transition-colors"
                           >
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -733,6 +1182,10 @@ export default function Home() {
                             </svg>
                           </button>
                         </div>
+                        <FileUploadProgress
+                          upload={uploads[pdfFile.id]}
+                          onRetry={() => startUpload(toUploadEntry(pdfFile))}
+                        />
                       </div>
                     )}
                   </div>
@@ -777,19 +1230,89 @@ export default function Home() {
                           className="wizard-input resize-none"
                         />
                       </div>
+                      <div className="grid sm:grid-cols-3 gap-4">
+                        <div>
+                          <label htmlFor="language" className="block text-sm font-medium text-[var(--text-primary)]/60 mb-2">
+                            Language
+                          </label>
+                          <select
+                            id="language"
+                            value={languageHint}
+                            onChange={(e) => setLanguageHint(e.target.value as LanguageHint)}
+                            className="wizard-input"
+                          >
+                            {LANGUAGE_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="audience" className="block text-sm font-medium text-[var(--text-primary)]/60 mb-2">
+                            Audience
+                          </label>
+                          <select
+                            id="audience"
+                            value={audienceType ?? ""}
+                            onChange={(e) => setAudienceType((e.target.value || null) as AudienceType | null)}
+                            className="wizard-input"
+                          >
+                            <option value="">Not specified</option>
+                            {AUDIENCE_OPTIONS.map((option) => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="time-limit" className="block text-sm font-medium text-[var(--text-primary)]/60 mb-2">
+                            Time Limit
+                          </label>
+                          <select
+                            id="time-limit"
+                            value={timeLimitSec ?? ""}
+                            onChange={(e) => setTimeLimitSec(e.target.value ? Number(e.target.value) : null)}
+                            className="wizard-input"
+                          >
+                            <option value="">No limit</option>
+                            {TIME_LIMIT_OPTIONS.map((seconds) => (
+                              <option key={seconds} value={seconds}>{formatTimeLimit(seconds)}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                      <div>
+                        <label htmlFor="goal" className="block text-sm font-medium text-[var(--text-primary)]/60 mb-2">
+                          Goal of the Pitch
+                        </label>
+                        <input
+                          id="goal"
+                          type="text"
+                          value={goal}
+                          onChange={(e) => setGoal(e.target.value)}
+                          placeholder="e.g., Get a follow-up meeting"
+                          className="wizard-input"
+                        />
+                      </div>
+                      <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]/60 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={agentMesh}
+                          onChange={(e) => handleAgentMeshChange(e.target.checked)}
+                          className="accent-[var(--accent-primary)]"
+                        />
+                        Agent mesh mode (show each pipeline stage while it runs)
+                      </label>
                     </div>
 
                     {/* Error State */}
-                    {analysisError && (
-                      <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20">
-                        <div className="flex items-center gap-3">
-                          <svg className="w-5 h-5 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                          </svg>
-                          <p className="text-red-400 text-sm flex-1">{analysisError}</p>
-                        </div>
-                      </div>
-                    )}
+                    {analysisFailures.map((failure) => (
+                      <AnalysisRecoveryPanel
+                        key={failure.part}
+                        failure={failure}
+                        canConvert={audioVideoFile !== undefined}
+                        trimToSec={trimToSec}
+                        onAction={(action) => handleRecoveryAction(action, failure.part)}
+                      />
+                    ))}
                   </div>
                 )}
               </div>
@@ -854,75 +1377,43 @@ export default function Home() {
                     />
                   </div>
                 </div>
-              </div>
-            </div>
-          )}
 
-          {/* Results */}
-          {currentStep === "results" && (audioResult || pdfResult) && (
-            <section className="space-y-8 animate-fade-in">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="text-xl font-semibold text-[var(--text-primary)]">Analysis Results</h3>
-                  <p className="text-sm text-[var(--text-tertiary)]">
-                    {audioResult && pdfResult ? "Speech and slide deck analysis complete" : audioResult ? "Speech analysis complete" : "Slide deck analysis complete"}
-                  </p>
+                <div className="max-w-md mx-auto">
+                  {agentMesh && processingJobIds.map((jobId) => (
+                    <AgentMeshEventLog key={jobId} jobId={jobId} />
+                  ))}
                 </div>
+
                 <button
-                  onClick={handleReset}
-                  className="px-4 py-2 rounded-xl bg-[var(--text-primary)]/10 text-[var(--text-primary)] hover:bg-[var(--accent-blue-subtle)] hover:text-[var(--accent-blue)] transition-all duration-200 active:scale-[0.98] text-sm font-medium flex items-center gap-2"
+                  onClick={handleCancelAnalysis}
+                  className="mt-8 px-4 py-2 rounded-xl text-sm font-medium text-[var(--text-primary)]/60 hover:text-[var(--accent-blue)] hover:bg-[var(--accent-blue-subtle)] transition-all duration-200"
                 >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                  </svg>
-                  New Analysis
+                  Cancel
                 </button>
               </div>
+            </div>
+          )}
 
-              {audioResult && (
-                <div>
-                  {pdfResult && (
-                    <div className="flex items-center gap-2 mb-4">
-                      <div className="w-6 h-6 rounded-full bg-[var(--text-primary)]/10 flex items-center justify-center">
-                        <svg className="w-3.5 h-3.5 text-[var(--text-primary)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
-                        </svg>
-                      </div>
-                      <h4 className="text-lg font-medium text-[var(--text-primary)]">Speech Analysis</h4>
-                    </div>
-                  )}
-
-                  {recordedAudioUrl && audioResult.word_analysis.length > 0 && (
-                    <div className="mb-6">
-                      <KaraokePlayback
-                        audioUrl={recordedAudioUrl}
-                        wordAnalysis={audioResult.word_analysis}
-                        transcription={audioResult.transcription}
-                        timestamps={audioResult.timestamps}
-                      />
-                    </div>
-                  )}
-
-                  <SpeechAnalysisResults data={audioResult} onReset={handleReset} />
-                </div>
-              )}
-
-              {pdfResult && (
-                <div>
-                  {audioResult && (
-                    <div className="flex items-center gap-2 mb-4 mt-8">
-                      <div className="w-6 h-6 rounded-full bg-[var(--text-primary)]/10 flex items-center justify-center">
-                        <svg className="w-3.5 h-3.5 text-[var(--text-primary)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                        </svg>
-                      </div>
-                      <h4 className="text-lg font-medium text-[var(--text-primary)]">Slide Deck Analysis</h4>
-                    </div>
-                  )}
-                  <PDFAnalysisResults data={pdfResult} onReset={handleReset} />
-                </div>
-              )}
-            </section>
+          {/* Results */}
+          {currentStep === "results" && (audioResult || pdfResult) && (
+            <AnalysisResultsView
+              audioResult={audioResult}
+              pdfResult={pdfResult}
+              mediaUrl={recordedAudioUrl}
+              mediaType={audioVideoFile?.type === "video" ? "video" : "audio"}
+              deckFile={pdfFile?.file ?? null}
+              context={pitchContext}
+              jobId={analysisJobId}
+              speechState={audioVideoFile ? speechPart : undefined}
+              deckState={pdfFile ? deckPart : undefined}
+              partRecovery={{
+                canConvert: audioVideoFile !== undefined,
+                trimToSec,
+                onAction: handleRecoveryAction,
+              }}
+              shareUrl={sharePath}
+              onReset={handleReset}
+            />
           )}
         </main>
 
@@ -931,6 +1422,9 @@ export default function Home() {
             <p className="text-center text-sm text-[var(--text-primary)]/30">
               Pitch Perfect - AI-powered presentation coaching
             </p>
+            <div className="mt-3">
+              <SessionTransfer />
+            </div>
           </div>
         </footer>
       </div>
@@ -938,7 +1432,7 @@ export default function Home() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".mp3,.mp4,.wav,.pdf,audio/mpeg,audio/wav,video/mp4,application/pdf"
+        accept={`${mediaAccept},.pdf,application/pdf`}
         multiple
         onChange={(e) => {
           if (e.target.files) {
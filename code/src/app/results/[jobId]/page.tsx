@@ -0,0 +1,203 @@
+"use client";
+
+import { Suspense, useState, useEffect } from "react";
+import { useParams, useRouter, useSearchParams, usePathname } from "next/navigation";
+import Link from "next/link";
+import { Navbar } from "@/app/components/Navbar";
+import { InteractiveBackground } from "@/app/components/InteractiveBackground";
+import { AnalysisResultsView } from "@/app/components/AnalysisResultsView";
+import { SessionTransfer } from "@/app/components/SessionTransfer";
+import { isSpeechTab, type TabType } from "@/app/components/SpeechAnalysisResults";
+import { useTheme } from "@/app/components/ThemeContext";
+import { getAnalysis } from "@/app/services/history";
+import {
+  getJobResult,
+  splitAnalysisResult,
+  type AudioAnalysisResponse,
+  type MarketAnalysisResult,
+  type PDFAnalysisResponse,
+  type PitchContext,
+} from "@/app/services/api";
+
+interface LoadedAnalysis {
+  title: string;
+  createdAt: string | null;
+  audioResult: AudioAnalysisResponse | null;
+  pdfResult: PDFAnalysisResponse | null;
+  media: Blob | null;
+  mediaType: "audio" | "video" | null;
+  deck: Blob | null;
+  context: PitchContext | null;
+  market: MarketAnalysisResult | null;
+}
+
+// Prefers the copy in this browser's history (which also has the recording) and
+// falls back to the stored job results on the server, e.g. for a shared link.
+async function loadAnalysis(jobId: string, deckJobId: string | null): Promise<LoadedAnalysis> {
+  const record = await getAnalysis(jobId).catch(() => null);
+  if (record) {
+    return {
+      title: record.title,
+      createdAt: record.createdAt,
+      audioResult: record.audioResult,
+      pdfResult: record.pdfResult,
+      media: record.media,
+      mediaType: record.mediaType,
+      deck: record.deck ?? null,
+      context: record.context ?? null,
+      market: record.market ?? null,
+    };
+  }
+
+  const jobIds = deckJobId && deckJobId !== jobId ? [jobId, deckJobId] : [jobId];
+  const results = (await Promise.all(jobIds.map((id) => getJobResult<unknown>(id)))).map(splitAnalysisResult);
+  const audioResult = results.find((result) => result.audio)?.audio ?? null;
+  const pdfResult = results.find((result) => result.pdf)?.pdf ?? null;
+  if (!audioResult && !pdfResult) {
+    throw new Error("The server returned a result this page can't display.");
+  }
+  const context = audioResult?.context ?? pdfResult?.context ?? null;
+  return {
+    title: context?.title ?? "",
+    createdAt: null,
+    audioResult,
+    pdfResult,
+    media: null,
+    mediaType: null,
+    deck: null,
+    context,
+    market: null,
+  };
+}
+
+function ResultsContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { jobId } = useParams<{ jobId: string }>();
+  const deckJobId = searchParams.get("deck");
+  const tabParam = searchParams.get("tab");
+  const speechTab: TabType = isSpeechTab(tabParam) ? tabParam : "overview";
+
+  const [analysis, setAnalysis] = useState<LoadedAnalysis | null>(null);
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // The media URL belongs to the load that created it, so it's revoked only
+  // when a different analysis is loaded or the page unmounts
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    loadAnalysis(jobId, deckJobId)
+      .then((loaded) => {
+        if (cancelled) return;
+        url = loaded.media ? URL.createObjectURL(loaded.media) : null;
+        setMediaUrl(url);
+        setAnalysis(loaded);
+      })
+      .catch((error) => {
+        console.error("Failed to load analysis:", error);
+        if (!cancelled) {
+          setLoadError(error instanceof Error ? error.message : "Couldn't load this analysis.");
+        }
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [jobId, deckJobId]);
+
+  // Keep the selected tab in the URL so it survives reloads and can be shared
+  const handleTabChange = (tab: TabType) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (tab === "overview") params.delete("tab");
+    else params.set("tab", tab);
+    const query = params.toString();
+    router.replace(`${pathname}${query ? `?${query}` : ""}`, { scroll: false });
+  };
+
+  if (loadError) {
+    return (
+      <div className="wizard-container text-center py-12">
+        <p className="text-[var(--text-primary)] font-medium mb-2">Analysis not found</p>
+        <p className="text-sm text-[var(--text-primary)]/50 mb-6">{loadError}</p>
+        <Link
+          href="/history"
+          className="inline-flex items-center gap-2 px-6 py-3 rounded-xl bg-[var(--accent-primary)] text-[var(--bg-primary)] font-semibold hover:bg-[var(--accent-primary-hover)] transition-all duration-200"
+        >
+          Go to History
+        </Link>
+      </div>
+    );
+  }
+
+  if (!analysis) {
+    return <p className="text-[var(--text-primary)]/60">Loading analysis...</p>;
+  }
+
+  return (
+    <AnalysisResultsView
+      audioResult={analysis.audioResult}
+      pdfResult={analysis.pdfResult}
+      mediaUrl={mediaUrl}
+      mediaType={analysis.mediaType}
+      deckFile={analysis.deck}
+      context={analysis.context}
+      createdAt={analysis.createdAt}
+      jobId={jobId}
+      market={analysis.market}
+      onReset={() => router.push("/history")}
+      heading={analysis.title || "Analysis Results"}
+      subheading={analysis.createdAt ? new Date(analysis.createdAt).toLocaleString() : undefined}
+      resetLabel="Back to History"
+      shareUrl={searchParams.size > 0 ? `${pathname}?${searchParams.toString()}` : pathname}
+      speechTab={speechTab}
+      onSpeechTabChange={handleTabChange}
+    />
+  );
+}
+
+export default function Results() {
+  const router = useRouter();
+  const { isDark, toggleTheme } = useTheme();
+
+  return (
+    <div className="min-h-screen bg-[var(--bg-primary)] transition-colors duration-300 relative overflow-hidden">
+      {/* Interactive Background */}
+      <InteractiveBackground />
+
+      {/* Content Layer */}
+      <div className="relative z-10 pt-24">
+        <Navbar
+          brandName="Pitch Perfect"
+          navItems={[
+            { label: "Home", onClick: () => router.push("/") },
+            { label: "Learn More", onClick: () => router.push("/learn-more") },
+            { label: "History", onClick: () => router.push("/history") },
+            { label: "Analyze", onClick: () => router.push("/#analyze") },
+          ]}
+          onThemeToggle={toggleTheme}
+          isDarkMode={isDark}
+        />
+
+        <main className="max-w-2xl mx-auto px-6 py-12">
+          {/* useSearchParams needs a Suspense boundary */}
+          <Suspense fallback={<p className="text-[var(--text-primary)]/60">Loading analysis...</p>}>
+            <ResultsContent />
+          </Suspense>
+        </main>
+
+        <footer className="border-t border-[var(--border-primary)] mt-auto">
+          <div className="max-w-4xl mx-auto px-6 py-6">
+            <p className="text-center text-sm text-[var(--text-muted)]">
+              Pitch Perfect - AI-powered presentation coaching
+            </p>
+            <div className="mt-3">
+              <SessionTransfer />
+            </div>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+}
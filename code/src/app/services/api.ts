@@ -1,3 +1,5 @@
+import { getSessionId, sessionHeaders } from "@/app/services/session";
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
 
 // ============ Audio Analysis Types ============
@@ -6,6 +8,8 @@ export interface WordAnalysis {
   word: string;
   speed: "Too Slow" | "Ideal" | "Fast" | "Too Fast";
   syllables_per_minute: number;
+  start?: number; // seconds, from the STT word timestamps when available
+  end?: number;
 }
 
 export interface InsightItem {
@@ -25,6 +29,7 @@ export interface Insights {
   filler_words: FillerWordsInsight;
   structure: InsightItem;
   engagement: InsightItem;
+  audience_fit?: InsightItem; // only when the job was given an audience type
 }
 
 export interface AudioAnalysisResponse {
@@ -33,7 +38,26 @@ export interface AudioAnalysisResponse {
   timestamps: [number, number][]; // [end_time, spm]
   loudness: [number, number][]; // [time, db]
   insights: Insights;
-  verdict_audio: string; // base64 encoded audio
+  verdict_audio?: string; // base64 mp3 of the verdict; older results only, newer ones carry `voice`
+  voice?: VoiceFeedback;
+  context?: PitchContext | null; // echoed back from the job
+  language?: LanguageHint; // language the speech was analyzed in; older results are English
+}
+
+// ============ Voice Coach Types ============
+
+export type VoicePersona = "encouraging_coach" | "strict_investor";
+
+// One spoken take on the feedback, scripted and voiced for a persona
+export interface VoiceClip {
+  persona: VoicePersona;
+  script: string;
+  audioUrl: string; // presigned GET, or a path relative to the API
+  durationSec?: number | null;
+}
+
+export interface VoiceFeedback {
+  clips: VoiceClip[];
 }
 
 // ============ PDF Analysis Types ============
@@ -43,61 +67,860 @@ export interface PDFPage {
   text: string;
 }
 
+export type DeckIssueType = "clarity" | "density" | "story" | "visual";
+
+export interface DeckIssue {
+  type: DeckIssueType;
+  detail: string;
+}
+
+export interface RewriteSuggestion {
+  before: string | null;
+  after: string;
+  rationale: string;
+}
+
+export interface SlideCritique {
+  slideIndex: number; // 0-based
+  title: string | null;
+  summary: string;
+  issues: DeckIssue[];
+  rewriteSuggestions: RewriteSuggestion[];
+}
+
+export interface DeckFix {
+  title: string;
+  why: string;
+  how: string;
+}
+
+export interface DeckCritique {
+  format: "pdf";
+  slideCount: number;
+  overallSummary: string;
+  topFixes: DeckFix[];
+  perSlide: SlideCritique[];
+}
+
 export interface PDFAnalysisResponse {
   total_pages: number;
   pages: PDFPage[];
   summary: string;
+  deck?: DeckCritique; // AI critique; absent for results from older pipeline versions
+  context?: PitchContext | null; // echoed back from the job
 }
 
-// ============ API Functions ============
+// ============ Pitch Context Types ============
 
-export async function analyzeAudio(file: File): Promise<AudioAnalysisResponse> {
-  const formData = new FormData();
-  // Explicitly append the file with filename to ensure proper multipart encoding
-  formData.append("file", file, file.name);
+export type AudienceType = "seed_investors" | "growth_investors" | "customers" | "judges" | "internal" | "general";
 
-  const response = await fetch(`${API_BASE_URL}/analyze`, {
-    method: "POST",
-    // Don't set Content-Type header - browser will set it automatically with boundary
-    body: formData,
-  });
+// What the pitch is for, so feedback can be tailored to it
+export interface PitchContext {
+  title: string;
+  description: string;
+  audienceType: AudienceType | null;
+  timeLimitSec: number | null;
+  goal: string | null;
+}
+
+// Spoken language of the pitch; transcription, speed labels and insights use it
+export type LanguageHint = "en" | "fr";
+
+// ============ Job Types ============
+
+export type JobMode = "standard" | "agent_mesh";
+export type JobState = "queued" | "processing" | "done" | "error";
+
+export interface JobInitResponse {
+  jobId: string;
+  sessionId: string;
+  uploadPlan: {
+    deckKey: string;
+    videoKey: string;
+    audioKey: string;
+  };
+}
+
+export interface JobCreateResponse {
+  jobId: string;
+  status: JobState;
+}
+
+export interface JobStatus {
+  jobId: string;
+  status: JobState;
+  progress: number; // 0-100
+  step: string | null; // human readable name of the current pipeline step
+  errorMessage: string | null;
+  errorCode?: ApiErrorCode | null; // set by the worker for failures it can classify
+}
+
+export interface PollOptions<S = JobStatus> {
+  signal?: AbortSignal;
+  onProgress?: (status: S) => void;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface JobParams {
+  context?: PitchContext | null;
+  languageHint?: LanguageHint | null; // null lets the server detect it
+}
+
+export interface AnalysisOptions extends PollOptions, JobParams {}
+
+// A job analyzes everything uploaded under it, so its result carries the
+// speech fields, the deck fields, or both
+export interface AnalysisResults {
+  audio: AudioAnalysisResponse | null;
+  pdf: PDFAnalysisResponse | null;
+}
+
+// ============ Market Analysis Types ============
+
+export interface MarketAnalysisRequest {
+  companyName: string;
+  website?: string | null;
+  industryHint?: string | null;
+}
+
+export interface MarketJobCreateResponse {
+  marketJobId: string;
+  status: JobState;
+}
+
+export interface Competitor {
+  name: string;
+  whyRelevant: string;
+  evidence: string;
+}
+
+export interface MarketAnalysisResult {
+  summary: string;
+  competitors: Competitor[];
+  positioningSuggestions: string[];
+  pitchEmailTemplate: string;
+}
+
+export interface MarketJobStatus {
+  marketJobId: string;
+  status: JobState;
+  progress: number; // 0-100
+  step: string | null;
+  errorMessage: string | null;
+  errorCode?: ApiErrorCode | null;
+  market: MarketAnalysisResult | null; // set once status is "done"
+}
+
+// ============ Upload Types ============
+
+export type UploadKind = "deck" | "video" | "audio" | "voice";
+
+export interface PresignedPart {
+  partNumber: number;
+  putUrl: string;
+}
+
+export interface PresignResponse {
+  objectKey: string;
+  putUrl: string | null; // single PUT url when the file fits in one part
+  headers: Record<string, string>;
+  expiresInSeconds: number;
+  uploadId: string | null; // multipart upload id when the file is chunked
+  parts: PresignedPart[];
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  bytesPerSecond: number;
+}
+
+// Holds everything needed to resume an upload after a failure. Completed parts
+// are kept across runs so a retry only sends the bytes that are still missing.
+export interface UploadSession {
+  file: File;
+  kind: UploadKind;
+  jobId: string;
+  chunkSize: number;
+  presign: PresignResponse | null;
+  presignedAt: number;
+  completedParts: CompletedPart[];
+}
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  maxAttempts?: number;
+}
+
+export interface UploadedMedia {
+  jobId: string;
+  kind: UploadKind;
+  objectKey: string;
+}
+
+// ============ Live Coaching Types ============
+
+export interface LiveFillerFlag {
+  word: string;
+  tMs: number; // offset from the start of the stream
+}
+
+export interface LiveStreamOptions {
+  mimeType: string;
+  language?: LanguageHint;
+  onFiller: (flag: LiveFillerFlag) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface LiveStream {
+  send: (chunk: Blob) => void;
+  close: () => void;
+}
+
+// ============ Pipeline Event Types ============
+
+// Stages of the worker pipeline that report a start and an end
+export type PipelineStage = "speech.transcription" | "deck.render" | "gemini.deck" | "gemini.coach" | "voice.tts";
+
+export type PipelineEventType =
+  | "job.created"
+  | "upload.complete"
+  | `${PipelineStage}.started`
+  | `${PipelineStage}.done`
+  | "job.done"
+  | "job.error";
+
+export interface PipelineEvent {
+  id: string;
+  jobId: string;
+  ts: string; // ISO timestamp
+  type: PipelineEventType;
+  payload: Record<string, unknown> | null;
+}
+
+export interface PipelineEventOptions {
+  onEvent: (event: PipelineEvent) => void;
+  onError?: (error: Error) => void;
+  pollIntervalMs?: number;
+}
+
+export interface PipelineEventStream {
+  close: () => void;
+}
+
+// ============ Error Types ============
+
+export type ApiErrorCode = "validation" | "too_large" | "unsupported_type" | "timeout" | "server" | "offline";
+
+const API_ERROR_CODES: ApiErrorCode[] = ["validation", "too_large", "unsupported_type", "timeout", "server", "offline"];
+const TRANSIENT_ERROR_CODES: ApiErrorCode[] = ["timeout", "server", "offline"];
+
+export interface ApiErrorDetails {
+  status?: number | null;
+  requestId?: string | null; // quote this when reporting a problem
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number | null;
+  readonly requestId: string | null;
+
+  constructor(code: ApiErrorCode, message: string, details: ApiErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = "ApiError";
+    this.code = code;
+    this.status = details.status ?? null;
+    this.requestId = details.requestId ?? null;
+  }
+
+  // Failures that may go away if the same request is sent again
+  get isTransient(): boolean {
+    return TRANSIENT_ERROR_CODES.includes(this.code);
+  }
+}
+
+// ============ Request Helpers ============
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const REQUEST_ID_HEADER = "X-Request-Id";
+
+const isApiErrorCode = (value: unknown): value is ApiErrorCode =>
+  API_ERROR_CODES.includes(value as ApiErrorCode);
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 413) return "too_large";
+  if (status === 415) return "unsupported_type";
+  if (status === 408 || status === 504) return "timeout";
+  if (status >= 500 || status === 429) return "server";
+  return "validation";
+}
+
+function offlineError(cause: unknown): ApiError {
+  return new ApiError("offline", "Couldn't reach the server. Check your connection and try again.", { cause });
+}
+
+// Wraps anything thrown by the API layer (or code around it) as an ApiError
+export function toApiError(error: unknown, fallbackMessage = "Something went wrong. Please try again."): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof DOMException && error.name === "TimeoutError") {
+    return new ApiError("timeout", "The server took too long to respond.", { cause: error });
+  }
+  return new ApiError("server", error instanceof Error ? error.message : fallbackMessage, { cause: error });
+}
+
+async function sendRequest<T>(path: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, {
+      ...init,
+      headers: sessionHeaders(init.headers),
+      signal: init.signal ? AbortSignal.any([init.signal, timeout]) : timeout,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw error instanceof TypeError ? offlineError(error) : toApiError(error, fallbackError);
+  }
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: "Analysis failed" }));
-    const errorMessage = error.detail || error.error || "Failed to analyze audio";
-    console.error("Audio analysis error:", {
+    const body = await response.json().catch(() => ({}));
+    const message = typeof body.detail === "string" ? body.detail : typeof body.error === "string" ? body.error : fallbackError;
+    throw new ApiError(isApiErrorCode(body.code) ? body.code : codeForStatus(response.status), message, {
       status: response.status,
-      statusText: response.statusText,
-      error: errorMessage,
-      fileType: file.type,
-      fileName: file.name,
-      fileSize: file.size,
+      requestId: response.headers.get(REQUEST_ID_HEADER) ?? body.requestId ?? null,
     });
-    throw new Error(errorMessage);
   }
 
   return response.json();
 }
 
-export async function analyzePDF(file: File): Promise<PDFAnalysisResponse> {
-  const formData = new FormData();
-  formData.append("file", file);
+// Reads are safe to repeat, so they're retried on transient failures. Writes
+// are only retried where the caller knows they're idempotent.
+async function requestJson<T>(path: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const isRead = !init.method || init.method === "GET";
+  return isRead
+    ? withRetry(() => sendRequest<T>(path, init, fallbackError), init.signal ?? undefined)
+    : sendRequest<T>(path, init, fallbackError);
+}
 
-  const response = await fetch(`${API_BASE_URL}/analyze-pdf`, {
-    method: "POST",
-    body: formData,
+function abortError(): DOMException {
+  return new DOMException("The operation was aborted", "AbortError");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
+}
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: "PDF analysis failed" }));
-    throw new Error(error.detail || "Failed to analyze PDF");
+// Retries transient failures with exponential backoff (1s, 2s, 4s...)
+async function withRetry<T>(run: () => Promise<T>, signal?: AbortSignal, maxAttempts = 3): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const transient = error instanceof ApiError && error.isTransient;
+      if (isAbortError(error) || !transient || attempt >= maxAttempts) throw error;
+      await sleep(1000 * 2 ** (attempt - 1), signal);
+    }
   }
+}
 
-  return response.json();
+// ============ Job API ============
+
+export async function initJob(mode: JobMode = "standard", signal?: AbortSignal): Promise<JobInitResponse> {
+  return requestJson<JobInitResponse>(
+    "/v1/jobs/init",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mode }),
+      signal,
+    },
+    "Failed to create analysis job",
+  );
+}
+
+// Finalizes the job with every file uploaded under it: the deck plus either the
+// video or the audio recording
+export async function createJob(
+  jobId: string,
+  media: UploadedMedia[],
+  params: JobParams = {},
+  signal?: AbortSignal,
+): Promise<JobCreateResponse> {
+  const keyFor = (kind: UploadKind) => media.find((item) => item.kind === kind)?.objectKey ?? null;
+  return requestJson<JobCreateResponse>(
+    "/v1/jobs",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jobId,
+        deckKey: keyFor("deck"),
+        videoKey: keyFor("video"),
+        audioKey: keyFor("audio"),
+        languageHint: params.languageHint ?? null,
+        context: params.context ?? null,
+      }),
+      signal,
+    },
+    "Failed to queue analysis job",
+  );
+}
+
+export async function getJobStatus(jobId: string, signal?: AbortSignal): Promise<JobStatus> {
+  return requestJson<JobStatus>(`/v1/jobs/${jobId}`, { signal }, "Failed to fetch job status");
+}
+
+export async function getJobResult<T>(jobId: string, signal?: AbortSignal): Promise<T> {
+  return requestJson<T>(`/v1/results/${jobId}`, { signal }, "Failed to fetch analysis result");
+}
+
+// Polls until the job finishes. The delay grows while the job reports no new
+// progress and drops back to the initial delay whenever progress moves.
+async function pollUntilDone<S extends Pick<JobStatus, "status" | "progress" | "step" | "errorMessage" | "errorCode">>(
+  fetchStatus: (signal?: AbortSignal) => Promise<S>,
+  options: PollOptions<S>,
+  failureMessage: string,
+): Promise<S> {
+  const { signal, onProgress, initialDelayMs = 1000, maxDelayMs = 8000 } = options;
+  let delay = initialDelayMs;
+  let lastProgress = -1;
+  let lastStep: string | null = null;
+
+  while (true) {
+    const status = await fetchStatus(signal);
+    onProgress?.(status);
+
+    if (status.status === "done") return status;
+    if (status.status === "error") {
+      throw new ApiError(status.errorCode ?? "server", status.errorMessage || failureMessage);
+    }
+
+    if (status.progress !== lastProgress || status.step !== lastStep) {
+      delay = initialDelayMs;
+    } else {
+      delay = Math.min(maxDelayMs, delay * 1.5);
+    }
+    lastProgress = status.progress;
+    lastStep = status.step;
+
+    await sleep(delay, signal);
+  }
+}
+
+export async function pollJob(jobId: string, options: PollOptions = {}): Promise<JobStatus> {
+  return pollUntilDone((signal) => getJobStatus(jobId, signal), options, "Analysis failed");
+}
+
+const isAudioResult = (result: unknown): result is AudioAnalysisResponse =>
+  typeof result === "object" && result !== null && "word_analysis" in result;
+
+const isPDFResult = (result: unknown): result is PDFAnalysisResponse =>
+  typeof result === "object" && result !== null && "pages" in result;
+
+export function splitAnalysisResult(result: unknown): AnalysisResults {
+  return {
+    audio: isAudioResult(result) ? result : null,
+    pdf: isPDFResult(result) ? result : null,
+  };
+}
+
+// ============ Market Analysis API ============
+
+// Market jobs hang off a finished analysis job; the server builds the pitch
+// summary for the competitor scan from that job's transcript and deck.
+export async function startMarketAnalysis(
+  jobId: string,
+  request: MarketAnalysisRequest,
+  signal?: AbortSignal,
+): Promise<MarketJobCreateResponse> {
+  return requestJson<MarketJobCreateResponse>(
+    `/v1/market/${jobId}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        companyName: request.companyName,
+        website: request.website || null,
+        industryHint: request.industryHint || null,
+      }),
+      signal,
+    },
+    "Failed to start market analysis",
+  );
+}
+
+export async function getMarketJob(marketJobId: string, signal?: AbortSignal): Promise<MarketJobStatus> {
+  return requestJson<MarketJobStatus>(`/v1/market/${marketJobId}`, { signal }, "Failed to fetch market analysis");
+}
+
+export async function runMarketAnalysis(
+  jobId: string,
+  request: MarketAnalysisRequest,
+  options: PollOptions<MarketJobStatus> = {},
+): Promise<MarketAnalysisResult> {
+  const { marketJobId } = await startMarketAnalysis(jobId, request, options.signal);
+  const status = await pollUntilDone(
+    (signal) => getMarketJob(marketJobId, signal),
+    options,
+    "Market analysis failed",
+  );
+  if (!status.market) throw new ApiError("server", "Market analysis finished without a result");
+  return status.market;
+}
+
+// ============ Upload API ============
+
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // S3 multipart parts must be at least 5 MB
+
+// Size limits the backend enforces per upload, in MB
+export const UPLOAD_LIMITS_MB = {
+  deck: Number(process.env.NEXT_PUBLIC_MAX_DECK_MB) || 10,
+  video: Number(process.env.NEXT_PUBLIC_MAX_VIDEO_MB) || 100,
+  audio: Number(process.env.NEXT_PUBLIC_MAX_AUDIO_MB) || 20,
+};
+const PRESIGN_EXPIRY_MARGIN_MS = 30_000;
+
+export function createUploadSession(file: File, kind: UploadKind, jobId: string): UploadSession {
+  return {
+    file,
+    kind,
+    jobId,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    presign: null,
+    presignedAt: 0,
+    completedParts: [],
+  };
+}
+
+async function presignUpload(session: UploadSession, signal?: AbortSignal): Promise<PresignResponse> {
+  const { file, kind, jobId, chunkSize } = session;
+  return requestJson<PresignResponse>(
+    "/v1/uploads/presign",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        kind,
+        jobId,
+        filename: file.name,
+        contentType: file.type || "application/octet-stream",
+        sizeBytes: file.size,
+        partCount: Math.max(1, Math.ceil(file.size / chunkSize)),
+        // Re-signing an existing multipart upload keeps the parts already stored
+        uploadId: session.presign?.uploadId ?? null,
+      }),
+      signal,
+    },
+    "Failed to prepare upload",
+  );
+}
+
+async function completeMultipartUpload(session: UploadSession, signal?: AbortSignal): Promise<void> {
+  const presign = session.presign;
+  if (!presign?.uploadId) return;
+
+  await requestJson<{ objectKey: string }>(
+    "/v1/uploads/complete",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        objectKey: presign.objectKey,
+        uploadId: presign.uploadId,
+        parts: [...session.completedParts].sort((a, b) => a.partNumber - b.partNumber),
+      }),
+      signal,
+    },
+    "Failed to finalize upload",
+  );
+}
+
+// fetch() can't report upload progress, so parts are sent with XMLHttpRequest
+function putBlob(
+  url: string,
+  body: Blob,
+  headers: Record<string, string>,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(body.size);
+        resolve(xhr.getResponseHeader("ETag") ?? "");
+      } else {
+        reject(new ApiError(codeForStatus(xhr.status), `Upload failed with status ${xhr.status}`, {
+          status: xhr.status,
+          requestId: xhr.getResponseHeader("x-amz-request-id"),
+        }));
+      }
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(offlineError(null));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    xhr.send(body);
+  });
+}
+
+// Uploads whatever parts of the session are still missing, straight to object
+// storage. Transient part failures are retried with backoff before the whole
+// run fails; the session can then be passed to runUpload again to resume.
+export async function runUpload(session: UploadSession, options: UploadOptions = {}): Promise<string> {
+  const { signal, onProgress, maxAttempts = 3 } = options;
+  const { file, chunkSize } = session;
+
+  const isExpired = Date.now() > session.presignedAt + (session.presign?.expiresInSeconds ?? 0) * 1000 - PRESIGN_EXPIRY_MARGIN_MS;
+  if (!session.presign || isExpired) {
+    session.presign = await presignUpload(session, signal);
+    session.presignedAt = Date.now();
+  }
+  const presign = session.presign;
+
+  const partSize = (partNumber: number) =>
+    Math.min(chunkSize, file.size - (partNumber - 1) * chunkSize);
+
+  const completedBytes = () =>
+    session.completedParts.reduce((sum, part) => sum + partSize(part.partNumber), 0);
+
+  const startedAt = Date.now();
+  const bytesAtStart = completedBytes();
+
+  const report = (inFlight: number) => {
+    const loaded = completedBytes() + inFlight;
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+    onProgress?.({
+      loaded,
+      total: file.size,
+      bytesPerSecond: elapsedSeconds > 0 ? (loaded - bytesAtStart) / elapsedSeconds : 0,
+    });
+  };
+
+  let parts: PresignedPart[];
+  if (presign.uploadId) {
+    parts = presign.parts;
+  } else if (presign.putUrl) {
+    parts = [{ partNumber: 1, putUrl: presign.putUrl }];
+  } else {
+    // Don't keep the bad response around for the next attempt
+    session.presign = null;
+    throw new ApiError("server", "The server didn't return an upload URL for this file.");
+  }
+
+  report(0);
+
+  for (const part of parts) {
+    if (session.completedParts.some((p) => p.partNumber === part.partNumber)) continue;
+
+    const start = (part.partNumber - 1) * chunkSize;
+    const blob = presign.uploadId ? file.slice(start, start + partSize(part.partNumber)) : file;
+
+    const etag = await withRetry(() => putBlob(part.putUrl, blob, presign.headers, report, signal), signal, maxAttempts);
+    session.completedParts.push({ partNumber: part.partNumber, etag });
+  }
+
+  await completeMultipartUpload(session, signal);
+  report(0);
+  return presign.objectKey;
+}
+
+// ============ Live Coaching API ============
+
+// Streams recorder chunks over a WebSocket and reports filler words as the
+// server hears them. Chunks sent before the socket opens are queued, since
+// the first chunk carries the container header the server needs to decode.
+export function openLiveStream(options: LiveStreamOptions): LiveStream {
+  const { mimeType, language, onFiller, onError } = options;
+  const url = new URL("/v1/live", API_BASE_URL.replace(/^http/, "ws"));
+  url.searchParams.set("sessionId", getSessionId());
+  if (language) url.searchParams.set("language", language);
+
+  const socket = new WebSocket(url);
+  const pending: Blob[] = [];
+  let closed = false;
+
+  socket.onopen = () => {
+    socket.send(JSON.stringify({ type: "start", mimeType }));
+    pending.splice(0).forEach((chunk) => socket.send(chunk));
+  };
+
+  socket.onmessage = (event) => {
+    try {
+      const message = JSON.parse(event.data);
+      if (message.type === "filler") onFiller({ word: message.word, tMs: message.tMs });
+    } catch {
+      // Ignore anything that isn't a JSON event
+    }
+  };
+
+  socket.onerror = () => {
+    if (!closed) onError?.(new Error("Live coaching connection failed"));
+  };
+
+  return {
+    send: (chunk) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(chunk);
+      else if (socket.readyState === WebSocket.CONNECTING) pending.push(chunk);
+    },
+    close: () => {
+      closed = true;
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "stop" }));
+      socket.close();
+    },
+  };
+}
+
+// ============ Pipeline Events API ============
+
+export async function getPipelineEvents(jobId: string, signal?: AbortSignal): Promise<PipelineEvent[]> {
+  return requestJson<PipelineEvent[]>(`/v1/events/${jobId}`, { signal }, "Failed to fetch pipeline events");
+}
+
+const isFinalEvent = (event: PipelineEvent): boolean => event.type === "job.done" || event.type === "job.error";
+
+// Follows a job's pipeline events over server-sent events, falling back to
+// polling the event list if the stream can't be opened or drops. EventSource
+// can't send headers, so the session goes in the query string as for the live
+// stream. Events are delivered once each, and delivery stops after the job
+// finishes or fails.
+export function openPipelineEvents(jobId: string, options: PipelineEventOptions): PipelineEventStream {
+  const { onEvent, onError, pollIntervalMs = 1500 } = options;
+  const controller = new AbortController();
+  const seen = new Set<string>();
+  let source: EventSource | null = null;
+  let finished = false;
+
+  const close = () => {
+    finished = true;
+    source?.close();
+    source = null;
+    controller.abort();
+  };
+
+  const deliver = (event: PipelineEvent) => {
+    if (finished || seen.has(event.id)) return;
+    seen.add(event.id);
+    onEvent(event);
+    if (isFinalEvent(event)) close();
+  };
+
+  const poll = async () => {
+    try {
+      while (!finished) {
+        const events = await getPipelineEvents(jobId, controller.signal);
+        events.forEach(deliver);
+        if (!finished) await sleep(pollIntervalMs, controller.signal);
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      onError?.(error instanceof Error ? error : new Error("Failed to fetch pipeline events"));
+    }
+  };
+
+  if (typeof EventSource === "undefined") {
+    poll();
+  } else {
+    const url = new URL(`/v1/events/${jobId}/stream`, API_BASE_URL);
+    url.searchParams.set("sessionId", getSessionId());
+    source = new EventSource(url);
+    source.onmessage = (message) => {
+      try {
+        deliver(JSON.parse(message.data));
+      } catch {
+        // Ignore anything that isn't a JSON event
+      }
+    };
+    // EventSource would retry on its own, possibly missing events in between,
+    // so polling takes over from the full list instead
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      if (!finished) poll();
+    };
+  }
+
+  return { close };
+}
+
+// ============ API Functions ============
+
+// Queues one job for all the uploaded files and waits for its result
+export async function analyzeUploads(
+  jobId: string,
+  media: UploadedMedia[],
+  options: AnalysisOptions = {},
+): Promise<AnalysisResults> {
+  try {
+    // Jobs are keyed by the id from initJob, so sending the request again is safe
+    await withRetry(
+      () => createJob(jobId, media, { context: options.context, languageHint: options.languageHint }, options.signal),
+      options.signal,
+    );
+    await pollJob(jobId, options);
+    return splitAnalysisResult(await getJobResult<unknown>(jobId, options.signal));
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error("Analysis error:", {
+        error: error instanceof Error ? error.message : error,
+        code: error instanceof ApiError ? error.code : null,
+        requestId: error instanceof ApiError ? error.requestId : null,
+        jobId,
+        objectKeys: media.map((item) => item.objectKey),
+      });
+    }
+    throw error;
+  }
 }
 
 export async function healthCheck(): Promise<{ status: string }> {
-  const response = await fetch(`${API_BASE_URL}/`);
+  const response = await fetch(`${API_BASE_URL}/`, { headers: sessionHeaders() });
 
   if (!response.ok) {
     throw new Error("API health check failed");
@@ -135,3 +958,22 @@ export function calculateAverageSPM(wordAnalysis: WordAnalysis[]): number {
   const total = wordAnalysis.reduce((sum, word) => sum + word.syllables_per_minute, 0);
   return total / wordAnalysis.length;
 }
+
+// Voice clips with playable URLs. Results from before personas only have the
+// base64 verdict, which is presented as a single coach clip.
+export function getVoiceClips(data: AudioAnalysisResponse): VoiceClip[] {
+  if (data.voice?.clips.length) {
+    return data.voice.clips.map((clip) => ({
+      ...clip,
+      audioUrl: clip.audioUrl.startsWith("/") ? `${API_BASE_URL}${clip.audioUrl}` : clip.audioUrl,
+    }));
+  }
+  if (data.verdict_audio) {
+    return [{
+      persona: "encouraging_coach",
+      script: data.insights?.overall_verdict ?? "",
+      audioUrl: `data:audio/mpeg;base64,${data.verdict_audio}`,
+    }];
+  }
+  return [];
+}
@@ -0,0 +1,259 @@
+import { UPLOAD_LIMITS_MB } from "@/app/services/api";
+import { muxOpusWebm, type OpusPacket } from "@/app/services/webm";
+
+// Prepares recordings in the browser before upload. Any format the browser can
+// decode is turned into 16 kHz mono speech audio with steady loudness and the
+// silence at either end removed, then encoded as Opus (WebM) where WebCodecs
+// supports it and as 16-bit WAV otherwise. Both are formats the backend
+// always accepts, and 16 kHz mono is all speech analysis needs.
+
+const TARGET_SAMPLE_RATE = 16_000;
+const BYTES_PER_SAMPLE = 2;
+const WAV_HEADER_BYTES = 44;
+const OPUS_BITRATE = 24_000;
+const DEFAULT_OPUS_PRE_SKIP = 312; // libopus encoder delay at 48 kHz
+
+const FRAME_SEC = 0.02;
+const SILENCE_FLOOR_DB = -50; // frames quieter than this are always silence
+const SILENCE_BELOW_PEAK_DB = 35; // ...as are frames this far below the loudest one
+const SILENCE_PADDING_SEC = 0.3; // kept around speech so words aren't clipped
+const TARGET_SPEECH_DB = -20; // RMS of the speech frames after normalizing
+const PEAK_CEILING = 10 ** (-1 / 20); // -1 dBFS
+const MAX_GAIN = 10; // +20 dB, so near-silent noise isn't blown up
+
+export const MAX_AUDIO_BYTES = UPLOAD_LIMITS_MB.audio * 1024 * 1024;
+
+// Longest recording that fits the audio upload limit even as WAV
+export const MAX_WAV_DURATION_SEC = Math.floor((MAX_AUDIO_BYTES - WAV_HEADER_BYTES) / (TARGET_SAMPLE_RATE * BYTES_PER_SAMPLE));
+
+export type AudioOutputFormat = "opus" | "wav";
+
+export interface PreprocessOptions {
+  format?: AudioOutputFormat | "auto"; // "auto" prefers Opus and falls back to WAV
+  maxDurationSec?: number; // keep only the start of the recording
+  normalize?: boolean;
+  trimSilence?: boolean;
+}
+
+export interface PreprocessedAudio {
+  file: File;
+  format: AudioOutputFormat;
+  durationSec: number;
+  trimmedStartSec: number; // leading silence removed, for lining up with the original
+}
+
+async function decodeAudio(file: Blob): Promise<AudioBuffer> {
+  const context = new AudioContext();
+  try {
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error("This browser couldn't decode the recording. Try converting it to MP3 or WAV.");
+  } finally {
+    context.close();
+  }
+}
+
+// OfflineAudioContext resamples and mixes every channel down to the
+// destination's single channel while rendering
+async function renderMono(buffer: AudioBuffer, durationSec: number): Promise<Float32Array<ArrayBuffer>> {
+  const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(durationSec * TARGET_SAMPLE_RATE)), TARGET_SAMPLE_RATE);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start(0, 0, durationSec);
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
+
+const toDb = (amplitude: number): number => 20 * Math.log10(Math.max(amplitude, 1e-9));
+
+function frameRms(samples: Float32Array, frameSize: number): number[] {
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(start + frameSize, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(Math.sqrt(sum / (end - start)));
+  }
+  return levels;
+}
+
+// Frames loud enough to count as speech, relative to the loudest frame so a
+// quiet room tone doesn't count but a quiet speaker still does
+function speechFrames(levels: number[]): boolean[] {
+  const peakDb = toDb(levels.reduce((max, level) => Math.max(max, level), 0));
+  const thresholdDb = Math.max(SILENCE_FLOOR_DB, peakDb - SILENCE_BELOW_PEAK_DB);
+  return levels.map((level) => toDb(level) >= thresholdDb);
+}
+
+function trimSilence(samples: Float32Array<ArrayBuffer>, speech: boolean[], frameSize: number) {
+  const first = speech.indexOf(true);
+  if (first === -1) return { samples, startSample: 0 };
+  const last = speech.lastIndexOf(true);
+  const padding = Math.round(SILENCE_PADDING_SEC * TARGET_SAMPLE_RATE);
+  const startSample = Math.max(0, first * frameSize - padding);
+  const endSample = Math.min(samples.length, (last + 1) * frameSize + padding);
+  return { samples: samples.subarray(startSample, endSample), startSample };
+}
+
+// Brings the speech to a consistent RMS level without letting peaks clip
+function normalizeLoudness(samples: Float32Array, levels: number[], speech: boolean[]): void {
+  const speechLevels = levels.filter((_, index) => speech[index]);
+  if (speechLevels.length === 0) return;
+  const speechRms = Math.sqrt(speechLevels.reduce((sum, level) => sum + level * level, 0) / speechLevels.length);
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  if (speechRms === 0 || peak === 0) return;
+
+  const gain = Math.min(10 ** ((TARGET_SPEECH_DB - toDb(speechRms)) / 20), PEAK_CEILING / peak, MAX_GAIN);
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+}
+
+function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const dataBytes = samples.length * BYTES_PER_SAMPLE;
+  const view = new DataView(new ArrayBuffer(WAV_HEADER_BYTES + dataBytes));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * BYTES_PER_SAMPLE, true);
+  view.setUint16(32, BYTES_PER_SAMPLE, true);
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, "data");
+  view.setUint32(40, dataBytes, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(WAV_HEADER_BYTES + i * BYTES_PER_SAMPLE, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([view], { type: "audio/wav" });
+}
+
+const opusConfig = (sampleRate: number): AudioEncoderConfig => ({
+  codec: "opus",
+  sampleRate,
+  numberOfChannels: 1,
+  bitrate: OPUS_BITRATE,
+});
+
+export async function canEncodeOpus(): Promise<boolean> {
+  if (typeof AudioEncoder === "undefined") return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(opusConfig(TARGET_SAMPLE_RATE));
+    return supported === true;
+  } catch {
+    return false;
+  }
+}
+
+// OpusHead for a mono stream, used when the encoder doesn't supply one
+function opusHead(inputSampleRate: number): Uint8Array<ArrayBuffer> {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"));
+  head[8] = 1; // version
+  head[9] = 1; // channels
+  view.setUint16(10, DEFAULT_OPUS_PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  return head;
+}
+
+// Encodes with WebCodecs, which runs much faster than real time, unlike
+// recording a MediaStream with MediaRecorder
+async function encodeOpus(samples: Float32Array<ArrayBuffer>, sampleRate: number): Promise<Blob> {
+  const packets: OpusPacket[] = [];
+  let codecPrivate: Uint8Array = opusHead(sampleRate);
+  let encodeError: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, timestampUs: chunk.timestamp });
+      const description = metadata?.decoderConfig?.description;
+      if (description) {
+        codecPrivate = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+          : new Uint8Array(description).slice();
+      }
+    },
+    error: (error) => {
+      encodeError = error;
+    },
+  });
+  encoder.configure(opusConfig(sampleRate));
+
+  // One second of audio per AudioData keeps the number of objects small
+  for (let start = 0; start < samples.length; start += sampleRate) {
+    const frame = samples.slice(start, start + sampleRate);
+    const audioData = new AudioData({
+      format: "f32",
+      sampleRate,
+      numberOfChannels: 1,
+      numberOfFrames: frame.length,
+      timestamp: Math.round((start / sampleRate) * 1e6),
+      data: frame,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+
+  const preSkip = codecPrivate.length >= 12 ? new DataView(codecPrivate.buffer, codecPrivate.byteOffset).getUint16(10, true) : DEFAULT_OPUS_PRE_SKIP;
+  return muxOpusWebm({
+    packets,
+    durationUs: Math.round((samples.length / sampleRate) * 1e6),
+    codecPrivate,
+    preSkip,
+  });
+}
+
+export async function preprocessAudio(input: File, options: PreprocessOptions = {}): Promise<PreprocessedAudio> {
+  const { format = "auto", maxDurationSec, normalize = true, trimSilence: shouldTrim = true } = options;
+  const buffer = await decodeAudio(input);
+  const rendered = await renderMono(buffer, Math.min(buffer.duration, maxDurationSec ?? Infinity));
+
+  const frameSize = Math.round(FRAME_SEC * TARGET_SAMPLE_RATE);
+  const levels = frameRms(rendered, frameSize);
+  const speech = speechFrames(levels);
+  const { samples, startSample } = shouldTrim ? trimSilence(rendered, speech, frameSize) : { samples: rendered, startSample: 0 };
+  if (normalize) {
+    // Levels were measured on the untrimmed audio; skip the trimmed frames
+    const firstFrame = Math.floor(startSample / frameSize);
+    const frameCount = Math.ceil(samples.length / frameSize);
+    normalizeLoudness(samples, levels.slice(firstFrame, firstFrame + frameCount), speech.slice(firstFrame, firstFrame + frameCount));
+  }
+
+  let opus: Blob | null = null;
+  if (format === "opus" || (format === "auto" && (await canEncodeOpus()))) {
+    try {
+      opus = await encodeOpus(samples, TARGET_SAMPLE_RATE);
+    } catch (error) {
+      if (format === "opus") throw error;
+      console.warn("Opus encoding failed, falling back to WAV:", error);
+    }
+  }
+
+  const baseName = input.name.replace(/\.[^.]+$/, "") || "recording";
+  const file = opus
+    ? new File([opus], `${baseName}.webm`, { type: "audio/webm" })
+    : new File([encodeWav(samples, TARGET_SAMPLE_RATE)], `${baseName}.wav`, { type: "audio/wav" });
+
+  return {
+    file,
+    format: opus ? "opus" : "wav",
+    durationSec: samples.length / TARGET_SAMPLE_RATE,
+    trimmedStartSec: startSample / TARGET_SAMPLE_RATE,
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { AudioAnalysisResponse, Insights, WordAnalysis } from "@/app/services/api";
+import { detectCoachingEvents, type CoachingEventType } from "@/app/services/coachingEvents";
+import { defaultFillersFor } from "@/app/services/fillers";
+
+const word = (text: string, start: number, end = start + 0.4): WordAnalysis => ({
+  word: text,
+  speed: "Ideal",
+  syllables_per_minute: 200,
+  start,
+  end,
+});
+
+// One word per second, with the given words swapped in at their second
+const speech = (seconds: number, replacements: Record<number, string> = {}): WordAnalysis[] =>
+  Array.from({ length: seconds }, (_, second) => word(replacements[second] ?? "pitch", second));
+
+const analysis = (
+  wordAnalysis: WordAnalysis[],
+  timestamps: [number, number][] = [],
+  loudness: [number, number][] = [],
+): AudioAnalysisResponse => ({
+  transcription: wordAnalysis.map((w) => w.word).join(" "),
+  word_analysis: wordAnalysis,
+  timestamps,
+  loudness,
+  insights: {} as Insights,
+});
+
+// A pace sample every second up to `seconds`, at `spmAt(second)`
+const pace = (seconds: number, spmAt: (second: number) => number): [number, number][] =>
+  Array.from({ length: seconds }, (_, index) => [index + 1, spmAt(index)]);
+
+const eventsOf = (data: AudioAnalysisResponse, type: CoachingEventType) =>
+  detectCoachingEvents(data, defaultFillersFor("en")).filter((event) => event.type === type);
+
+describe("filler spikes", () => {
+  it("reports three fillers within 15 seconds, the window end included", () => {
+    const events = eventsOf(analysis(speech(40, { 5: "um", 12: "uh", 20: "um" })), "filler_spike");
+    expect(events).toHaveLength(1);
+    expect(events[0].tMs).toBe(5000);
+    expect(events[0].severity).toBe(1);
+    expect(events[0].evidence).toBe('"um", "uh", "um"');
+  });
+
+  it("ignores fillers spread just past the window", () => {
+    const words = speech(40, { 5: "um", 12: "uh" });
+    words[20] = word("um", 20.1);
+    expect(eventsOf(analysis(words), "filler_spike")).toEqual([]);
+  });
+
+  it("reports one cluster once and rates it by size", () => {
+    const events = eventsOf(analysis(speech(40, { 2: "um", 3: "uh", 4: "um", 5: "uh", 6: "um" })), "filler_spike");
+    expect(events).toHaveLength(1);
+    expect(events[0].severity).toBe(3);
+  });
+});
+
+describe("pace windows", () => {
+  it("merges consecutive fast windows into one event", () => {
+    const events = eventsOf(analysis(speech(60), pace(60, () => 350)), "pace_fast");
+    expect(events).toHaveLength(1);
+    expect(events[0].tMs).toBe(0);
+  });
+
+  it("ignores a trailing window shorter than 10 seconds", () => {
+    const fastTail = (second: number) => (second >= 30 ? 350 : 200);
+    expect(eventsOf(analysis(speech(39), pace(39, fastTail)), "pace_fast")).toEqual([]);
+    expect(eventsOf(analysis(speech(40), pace(40, fastTail)), "pace_fast").map((event) => event.tMs)).toEqual([30000]);
+  });
+
+  it("leaves silent samples out of the average", () => {
+    const slowWithPauses = (second: number) => (second % 2 === 0 ? 0 : 200);
+    expect(eventsOf(analysis(speech(60), pace(60, slowWithPauses)), "pace_slow")).toEqual([]);
+  });
+});
+
+describe("long pauses", () => {
+  it("reports gaps of two seconds or more between words", () => {
+    const words = [word("we", 0, 1), word("grew", 3, 3.5), word("fast", 5.4, 6)];
+    const events = eventsOf(analysis(words), "long_pause");
+    expect(events.map((event) => event.tMs)).toEqual([1000]);
+  });
+
+  it("ignores silence before the first and after the last word", () => {
+    const words = [word("we", 5, 5.5), word("grew", 5.6, 6)];
+    const loudness: [number, number][] = [[0, -60], [5, -10], [6, -60], [12, -10]];
+    expect(eventsOf(analysis(words, [], loudness), "long_pause")).toEqual([]);
+  });
+});
+
+it("returns nothing for an empty transcript", () => {
+  expect(detectCoachingEvents(analysis([]), defaultFillersFor("en"))).toEqual([]);
+});
@@ -0,0 +1,231 @@
+import type { AudioAnalysisResponse } from "@/app/services/api";
+import { detectFillers, fillerWordIndexes, getFillerDictionary, type FillerDictionary, type FillerMatch } from "@/app/services/fillers";
+import { getLanguage, type CoachingEventStrings, type PaceThresholds } from "@/app/services/languages";
+import { computeWordTimings, type WordTiming } from "@/app/services/timing";
+
+// Timestamped coaching events, shaped like the `events` array in the API spec
+// so server-side events can replace these once the pipeline produces them.
+
+export type CoachingEventType = "filler_spike" | "pace_fast" | "pace_slow" | "long_pause" | "strong_moment";
+
+export interface CoachingEvent {
+  id: string;
+  tMs: number;
+  type: CoachingEventType;
+  severity: 1 | 2 | 3;
+  title: string;
+  detail: string;
+  suggestion: string;
+  evidence: string | null;
+}
+
+const FILLER_WINDOW_SEC = 15;
+const FILLER_SPIKE_COUNT = 3;
+const PACE_WINDOW_SEC = 30;
+const MIN_PACE_WINDOW_SEC = 10; // a trailing window shorter than this is ignored
+const LONG_PAUSE_SEC = 2;
+const SILENCE_DB = -40; // loudness is reported in dB relative to peak
+const MAX_EVENTS = 15;
+
+const formatClock = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+const makeEvent = (event: Omit<CoachingEvent, "id">): CoachingEvent => ({
+  ...event,
+  id: `${event.type}-${event.tMs}`,
+});
+
+interface PaceWindow {
+  start: number;
+  end: number;
+  avgSpm: number;
+  wordIndexes: number[];
+}
+
+function buildPaceWindows(data: AudioAnalysisResponse, timings: WordTiming[], duration: number): PaceWindow[] {
+  const windows: PaceWindow[] = [];
+  for (let start = 0; start < duration; start += PACE_WINDOW_SEC) {
+    const end = Math.min(start + PACE_WINDOW_SEC, duration);
+    if (end - start < MIN_PACE_WINDOW_SEC) break;
+
+    // Silent samples (spm 0) are pauses, not slow speech
+    const samples = data.timestamps.filter(([time, spm]) => time > start && time <= end && spm > 0);
+    const avgSpm = samples.length > 0 ? samples.reduce((sum, [, spm]) => sum + spm, 0) / samples.length : 0;
+    const wordIndexes = timings
+      .map((timing, index) => ({ timing, index }))
+      .filter(({ timing }) => timing.start >= start && timing.start < end)
+      .map(({ index }) => index);
+
+    windows.push({ start, end, avgSpm, wordIndexes });
+  }
+  return windows;
+}
+
+function detectFillerSpikes(matches: FillerMatch[], timings: WordTiming[], strings: CoachingEventStrings): CoachingEvent[] {
+  const fillers = matches.map((match) => ({ word: match.text, time: timings[match.startIndex]?.start ?? 0 }));
+
+  const events: CoachingEvent[] = [];
+  let i = 0;
+  while (i < fillers.length) {
+    const windowEnd = fillers[i].time + FILLER_WINDOW_SEC;
+    let j = i;
+    while (j < fillers.length && fillers[j].time <= windowEnd) j++;
+
+    const inWindow = fillers.slice(i, j);
+    if (inWindow.length >= FILLER_SPIKE_COUNT) {
+      events.push(makeEvent({
+        tMs: Math.round(fillers[i].time * 1000),
+        type: "filler_spike",
+        severity: inWindow.length >= 5 ? 3 : inWindow.length >= 4 ? 2 : 1,
+        title: strings.fillerSpikeTitle(inWindow.length, FILLER_WINDOW_SEC),
+        detail: strings.fillerSpikeDetail(formatClock(fillers[i].time)),
+        suggestion: strings.fillerSpikeSuggestion,
+        evidence: inWindow.map(({ word }) => `"${word}"`).join(", "),
+      }));
+      i = j; // don't report the same cluster twice
+    } else {
+      i++;
+    }
+  }
+  return events;
+}
+
+function detectPaceEvents(windows: PaceWindow[], pace: PaceThresholds, strings: CoachingEventStrings): CoachingEvent[] {
+  const events: CoachingEvent[] = [];
+  let runStart = -1;
+
+  // Consecutive windows outside the band are merged into one event
+  for (let i = 0; i <= windows.length; i++) {
+    const type = i < windows.length ? paceType(windows[i].avgSpm, pace) : null;
+    const runType = runStart >= 0 ? paceType(windows[runStart].avgSpm, pace) : null;
+    if (runStart >= 0 && type === runType) continue;
+
+    if (runStart >= 0 && runType) {
+      const run = windows.slice(runStart, i);
+      const avgSpm = run.reduce((sum, w) => sum + w.avgSpm, 0) / run.length;
+      const distance = runType === "pace_fast" ? avgSpm / pace.fastAbove : pace.slowBelow / avgSpm;
+      events.push(makeEvent({
+        tMs: Math.round(run[0].start * 1000),
+        type: runType,
+        severity: distance > 1.3 ? 3 : distance > 1.15 ? 2 : 1,
+        title: runType === "pace_fast" ? strings.paceFastTitle : strings.paceSlowTitle,
+        detail: strings.paceDetail(Math.round(avgSpm), formatClock(run[0].start), formatClock(run[run.length - 1].end), pace),
+        suggestion: runType === "pace_fast" ? strings.paceFastSuggestion : strings.paceSlowSuggestion,
+        evidence: null,
+      }));
+    }
+    runStart = type ? i : -1;
+  }
+  return events;
+}
+
+function paceType(avgSpm: number, pace: PaceThresholds): "pace_fast" | "pace_slow" | null {
+  if (avgSpm <= 0) return null;
+  if (avgSpm > pace.fastAbove) return "pace_fast";
+  if (avgSpm < pace.slowBelow) return "pace_slow";
+  return null;
+}
+
+// Silent stretches in the loudness series, or gaps between word timings when
+// there is no loudness data. Silence before the first or after the last word
+// isn't a pause.
+function detectLongPauses(data: AudioAnalysisResponse, timings: WordTiming[], strings: CoachingEventStrings): CoachingEvent[] {
+  const gaps: { start: number; end: number }[] = [];
+  const speechStart = timings[0]?.start ?? 0;
+  const speechEnd = timings[timings.length - 1]?.end ?? 0;
+
+  if (data.loudness.length > 0) {
+    let silentFrom: number | null = null;
+    for (const [time, db] of data.loudness) {
+      if (db < SILENCE_DB) {
+        silentFrom ??= time;
+      } else if (silentFrom !== null) {
+        gaps.push({ start: silentFrom, end: time });
+        silentFrom = null;
+      }
+    }
+  } else {
+    for (let i = 1; i < timings.length; i++) {
+      gaps.push({ start: timings[i - 1].end, end: timings[i].start });
+    }
+  }
+
+  return gaps
+    .filter((gap) => gap.end - gap.start >= LONG_PAUSE_SEC && gap.start > speechStart && gap.end < speechEnd)
+    .map((gap) => {
+      const length = gap.end - gap.start;
+      return makeEvent({
+        tMs: Math.round(gap.start * 1000),
+        type: "long_pause",
+        severity: length >= 5 ? 3 : length >= 3.5 ? 2 : 1,
+        title: strings.pauseTitle(length.toFixed(1)),
+        detail: strings.pauseDetail(formatClock(gap.start)),
+        suggestion: strings.pauseSuggestion,
+        evidence: null,
+      });
+    });
+}
+
+// Windows with no fillers, an in-band pace and mostly ideal-speed words.
+// Only the best two are reported so they stand out.
+function detectStrongMoments(
+  data: AudioAnalysisResponse,
+  windows: PaceWindow[],
+  fillerIndexes: Set<number>,
+  pace: PaceThresholds,
+  strings: CoachingEventStrings,
+): CoachingEvent[] {
+  return windows
+    .map((window) => {
+      const words = window.wordIndexes.map((index) => data.word_analysis[index]);
+      const hasFillers = window.wordIndexes.some((index) => fillerIndexes.has(index));
+      const idealRatio = words.length > 0 ? words.filter((word) => word.speed === "Ideal").length / words.length : 0;
+      return { window, words, hasFillers, idealRatio };
+    })
+    .filter(({ window, words, hasFillers, idealRatio }) =>
+      !hasFillers && words.length >= 10 && idealRatio >= 0.8 && paceType(window.avgSpm, pace) === null,
+    )
+    .sort((a, b) => b.idealRatio - a.idealRatio)
+    .slice(0, 2)
+    .map(({ window, words, idealRatio }) => makeEvent({
+      tMs: Math.round(window.start * 1000),
+      type: "strong_moment",
+      severity: 1,
+      title: strings.strongTitle,
+      detail: strings.strongDetail(Math.round(idealRatio * 100), formatClock(window.start), formatClock(window.end)),
+      suggestion: strings.strongSuggestion,
+      evidence: `"${words.slice(0, 12).map((word) => word.word).join(" ")}${words.length > 12 ? "…" : ""}"`,
+    }));
+}
+
+export function detectCoachingEvents(
+  data: AudioAnalysisResponse,
+  dictionary: FillerDictionary = getFillerDictionary(data.language),
+): CoachingEvent[] {
+  const words = data.word_analysis || [];
+  if (words.length === 0) return [];
+
+  const input = { ...data, timestamps: data.timestamps || [], loudness: data.loudness || [] };
+  const lastTimestamp = input.timestamps.length > 0 ? input.timestamps[input.timestamps.length - 1][0] : 0;
+  const timings = computeWordTimings(words, input.timestamps, lastTimestamp);
+  const duration = Math.max(lastTimestamp, timings[timings.length - 1]?.end ?? 0);
+  const windows = buildPaceWindows(input, timings, duration);
+  const fillers = detectFillers(words, dictionary);
+  const { pace, events: strings } = getLanguage(data.language);
+
+  const events = [
+    ...detectFillerSpikes(fillers, timings, strings),
+    ...detectPaceEvents(windows, pace, strings),
+    ...detectLongPauses(input, timings, strings),
+    ...detectStrongMoments(input, windows, fillerWordIndexes(fillers), pace, strings),
+  ];
+
+  // Keep the list readable: the most severe events win when there are too many
+  return events
+    .sort((a, b) => b.severity - a.severity)
+    .slice(0, MAX_EVENTS)
+    .sort((a, b) => a.tMs - b.tMs);
+}
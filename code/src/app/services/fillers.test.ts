@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { WordAnalysis } from "@/app/services/api";
+import {
+  buildFillerDictionary,
+  defaultFillersFor,
+  detectFillers,
+  fillerWordIndexes,
+  normalizeWord,
+} from "@/app/services/fillers";
+
+const words = (text: string): WordAnalysis[] =>
+  text.split(" ").map((word) => ({ word, speed: "Ideal", syllables_per_minute: 200 }));
+
+const fillersIn = (text: string, dictionary = defaultFillersFor("en")) =>
+  detectFillers(words(text), dictionary).map((match) => match.text);
+
+describe("normalizeWord", () => {
+  it("keeps accented letters and apostrophes", () => {
+    expect(normalizeWord("Été,")).toBe("été");
+    expect(normalizeWord("l'équipe.")).toBe("l'équipe");
+  });
+});
+
+describe("detectFillers", () => {
+  it("always counts unconditional fillers, whatever the punctuation", () => {
+    expect(fillersIn("Um, we built uh a tool.")).toEqual(["um", "uh"]);
+  });
+
+  it("matches a phrase across consecutive words as one filler", () => {
+    const matches = detectFillers(words("It works, you know, for everyone."), defaultFillersFor("en"));
+    expect(matches).toEqual([{ startIndex: 2, endIndex: 4, text: "you know" }]);
+    expect(fillerWordIndexes(matches)).toEqual(new Set([2, 3]));
+  });
+
+  it("skips phrases used as questions", () => {
+    expect(fillersIn("Do you know our market?")).toEqual([]);
+    expect(fillersIn("And you know what happened next.")).toEqual([]);
+  });
+
+  it("tells filler 'like' from the verb and comparisons", () => {
+    expect(fillersIn("I like this plan.")).toEqual([]);
+    expect(fillersIn("It looks like a win.")).toEqual([]);
+    expect(fillersIn("It was, like, huge.")).toEqual(["like"]);
+  });
+
+  it("counts 'so' opening a sentence but not 'so that'", () => {
+    expect(fillersIn("So, we started small.")).toEqual(["so"]);
+    expect(fillersIn("We hired early so that we could grow.")).toEqual([]);
+    expect(fillersIn("Sales, marketing and so on.")).toEqual([]);
+  });
+
+  it("counts a discourse marker only at a boundary or beside another filler", () => {
+    expect(fillersIn("It was basically free.")).toEqual([]);
+    expect(fillersIn("Basically, it was free.")).toEqual(["basically"]);
+    expect(fillersIn("It was um basically free.")).toEqual(["um", "basically"]);
+  });
+
+  it("counts 'right' only when it trails off", () => {
+    expect(fillersIn("Turn right at the end.")).toEqual([]);
+    expect(fillersIn("We ship weekly, right")).toEqual(["right"]);
+  });
+
+  it("applies the French rules", () => {
+    const fr = defaultFillersFor("fr");
+    expect(fillersIn("Euh, voilà notre produit.", fr)).toEqual(["euh"]);
+    expect(fillersIn("On a tout refait, voilà.", fr)).toEqual(["voilà"]);
+    expect(fillersIn("Ce genre de client paie.", fr)).toEqual([]);
+    expect(fillersIn("C'est genre énorme.", fr)).toEqual(["genre"]);
+    expect(fillersIn("Quoi de neuf ?", fr)).toEqual([]);
+    expect(fillersIn("C'est rapide, quoi.", fr)).toEqual(["quoi"]);
+  });
+
+  it("prefers the longest entry starting at a word", () => {
+    const dictionary = buildFillerDictionary({ added: ["you know what I mean"], removed: [] });
+    expect(fillersIn("It sells, you know what I mean.", dictionary)).toEqual(["you know what i mean"]);
+  });
+
+  it("honours custom additions and removals", () => {
+    const dictionary = buildFillerDictionary({ added: ["  Pretty   Much "], removed: ["UM"] });
+    expect(fillersIn("Um it is pretty much done.", dictionary)).toEqual(["pretty much"]);
+  });
+
+  it("handles an empty transcript", () => {
+    expect(detectFillers([], defaultFillersFor("en"))).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+import type { LanguageHint, WordAnalysis } from "@/app/services/api";
+
+// Filler detection over the word-by-word transcript. Entries can be single
+// words or multi-word phrases matched across consecutive words. "Always"
+// entries count every time; contextual ones ("like", "so", "you know") only
+// count when a context rule says they're being used as filler. Each language
+// has its own built-in dictionary and its own saved customizations.
+
+export interface FillerDictionary {
+  always: string[];
+  contextual: string[];
+}
+
+export interface CustomFillers {
+  added: string[]; // extra words or phrases, always counted
+  removed: string[]; // default entries the user doesn't want flagged
+}
+
+export interface FillerMatch {
+  startIndex: number; // index into word_analysis
+  endIndex: number; // exclusive
+  text: string; // the normalized dictionary entry
+}
+
+const FILLER_DICTIONARIES: Record<LanguageHint, FillerDictionary> = {
+  en: {
+    always: ["um", "uh", "uhm", "erm", "er", "ah", "hmm"],
+    contextual: ["like", "so", "actually", "basically", "literally", "right", "well", "you know", "i mean", "kind of", "sort of", "you see"],
+  },
+  fr: {
+    always: ["euh", "heu", "hum", "bah", "ben", "beh"],
+    contextual: ["genre", "en fait", "du coup", "voilà", "tu vois", "tu sais", "vous voyez", "enfin", "bon", "donc", "quoi", "en gros", "disons"],
+  },
+};
+
+export const DEFAULT_FILLER_DICTIONARY = FILLER_DICTIONARIES.en;
+
+// English keeps the original key so existing customizations carry over
+const customFillersKey = (language: LanguageHint): string =>
+  language === "en" ? "pitchcoach_custom_fillers" : `pitchcoach_custom_fillers_${language}`;
+
+// ============ Context Rules ============
+
+interface FillerContext {
+  previous: string | null; // normalized word before the match
+  next: string | null; // normalized word after the match
+  opensSentence: boolean; // first word, or the previous word ends a sentence
+  closesSentence: boolean; // the match's last word ends a sentence
+  followedByPause: boolean; // the match's last word carries a comma or dash
+  besideFiller: boolean; // an "always" filler sits right before or after
+}
+
+type ContextRule = (context: FillerContext) => boolean;
+
+// Discourse markers are fillers when they open a sentence, are set off by a
+// pause, or sit in a cluster of other fillers.
+const discourseMarker: ContextRule = ({ opensSentence, followedByPause, besideFiller }) =>
+  opensSentence || followedByPause || besideFiller;
+
+// "I like", "looks like", "something like": verb or comparison, not filler
+const LIKE_NOT_FILLER_BEFORE = new Set([
+  "i", "you", "we", "they", "would", "i'd", "you'd", "we'd", "they'd", "don't", "didn't", "doesn't", "really",
+  "look", "looks", "looked", "feel", "feels", "felt", "sound", "sounds", "seem", "seems", "something", "just",
+  "more", "less", "things", "much", "people", "anything", "nothing", "exactly", "not",
+]);
+
+// "a kind of tool", "what sort of market": a noun phrase, not a hedge
+const KIND_OF_NOT_FILLER_BEFORE = new Set(["a", "the", "what", "this", "that", "which", "any", "some", "one", "every", "same", "new"]);
+
+// "ce genre de", "un genre": the noun, not the filler
+const GENRE_NOT_FILLER_BEFORE = new Set(["ce", "un", "le", "du", "quel", "quelle", "même", "mon", "son", "leur", "de"]);
+
+// Rules are keyed by entry text; the dictionaries don't share entries across
+// languages, so one table serves them all.
+const CONTEXT_RULES: Record<string, ContextRule> = {
+  like: (context) => !LIKE_NOT_FILLER_BEFORE.has(context.previous ?? ""),
+  // "so that", "so much", "and so on" are real uses
+  so: (context) => !["that", "much", "many", "far", "long", "on", "called"].includes(context.next ?? "")
+    && context.previous !== "and" && discourseMarker(context),
+  // "do you know", "you know what/how" are questions, not filler
+  "you know": (context) => !["do", "did", "don't", "if", "whether", "might"].includes(context.previous ?? "")
+    && !["what", "how", "why", "who", "where", "when", "that", "the", "a"].includes(context.next ?? ""),
+  "kind of": (context) => !KIND_OF_NOT_FILLER_BEFORE.has(context.previous ?? ""),
+  "sort of": (context) => !KIND_OF_NOT_FILLER_BEFORE.has(context.previous ?? ""),
+  right: (context) => context.followedByPause || context.next === null,
+  genre: (context) => !GENRE_NOT_FILLER_BEFORE.has(context.previous ?? "") && context.next !== "de",
+  // "donc" links clauses; only count it opening a sentence or set off by a pause
+  donc: (context) => context.opensSentence || context.followedByPause,
+  // Sentence-final "quoi" is a tic; "quoi de neuf" or "de quoi" is a question
+  quoi: (context) => (context.closesSentence || context.followedByPause || context.next === null)
+    && !["de", "à", "pour", "sur"].includes(context.previous ?? ""),
+  // "voilà notre produit" presents something; a trailing "voilà" just fills
+  voilà: (context) => context.followedByPause || context.closesSentence || context.next === null,
+  // "enfin" as "finally" leads straight into a clause; as filler it trails off or self-corrects
+  enfin: (context) => context.followedByPause || context.closesSentence || context.besideFiller,
+};
+
+// ============ Dictionary ============
+
+export const normalizeWord = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+
+const normalizeEntry = (entry: string): string => entry.trim().split(/\s+/).map(normalizeWord).join(" ");
+
+export function buildFillerDictionary(custom: CustomFillers, base: FillerDictionary = DEFAULT_FILLER_DICTIONARY): FillerDictionary {
+  const removed = new Set(custom.removed.map(normalizeEntry));
+  const always = new Set([...base.always, ...custom.added.map(normalizeEntry)].filter((entry) => entry && !removed.has(entry)));
+  return {
+    always: Array.from(always),
+    contextual: base.contextual.filter((entry) => !removed.has(entry) && !always.has(entry)),
+  };
+}
+
+export function loadCustomFillers(language: LanguageHint = "en"): CustomFillers {
+  if (typeof window === "undefined") return { added: [], removed: [] };
+  try {
+    const stored = JSON.parse(localStorage.getItem(customFillersKey(language)) ?? "null");
+    return {
+      added: Array.isArray(stored?.added) ? stored.added : [],
+      removed: Array.isArray(stored?.removed) ? stored.removed : [],
+    };
+  } catch {
+    return { added: [], removed: [] };
+  }
+}
+
+export function saveCustomFillers(custom: CustomFillers, language: LanguageHint = "en"): void {
+  localStorage.setItem(customFillersKey(language), JSON.stringify(custom));
+}
+
+// Built-in entries for a language; unknown languages fall back to English
+export const defaultFillersFor = (language: LanguageHint = "en"): FillerDictionary =>
+  FILLER_DICTIONARIES[language] ?? DEFAULT_FILLER_DICTIONARY;
+
+export function getFillerDictionary(language: LanguageHint = "en"): FillerDictionary {
+  return buildFillerDictionary(loadCustomFillers(language), defaultFillersFor(language));
+}
+
+// ============ Detection ============
+
+const endsSentence = (word: string): boolean => /[.!?]["')\]]*$/.test(word.trim());
+const hasTrailingPause = (word: string): boolean => /[,;:—–-]["')\]]*$/.test(word.trim());
+
+// Finds the longest entry starting at `index`, comparing normalized words
+function matchEntry(tokens: string[], index: number, entries: string[][]): string[] | null {
+  for (const entry of entries) {
+    if (entry.every((part, offset) => tokens[index + offset] === part)) return entry;
+  }
+  return null;
+}
+
+const byLengthDesc = (entries: string[]): string[][] =>
+  entries.map((entry) => entry.split(" ")).sort((a, b) => b.length - a.length);
+
+export function detectFillers(words: WordAnalysis[], dictionary: FillerDictionary = getFillerDictionary()): FillerMatch[] {
+  const tokens = words.map((word) => normalizeWord(word.word));
+  const always = byLengthDesc(dictionary.always);
+  const contextual = byLengthDesc(dictionary.contextual);
+
+  // First pass: unconditional fillers, so contextual rules can see them
+  const alwaysAt = new Map<number, FillerMatch>();
+  for (let index = 0; index < tokens.length; index++) {
+    const entry = matchEntry(tokens, index, always);
+    if (!entry) continue;
+    const match = { startIndex: index, endIndex: index + entry.length, text: entry.join(" ") };
+    for (let covered = match.startIndex; covered < match.endIndex; covered++) alwaysAt.set(covered, match);
+    index = match.endIndex - 1;
+  }
+
+  const matches: FillerMatch[] = [];
+  for (let index = 0; index < tokens.length; index++) {
+    const alwaysMatch = alwaysAt.get(index);
+    if (alwaysMatch) {
+      matches.push(alwaysMatch);
+      index = alwaysMatch.endIndex - 1;
+      continue;
+    }
+
+    const entry = matchEntry(tokens, index, contextual);
+    if (!entry) continue;
+    const endIndex = index + entry.length;
+    const text = entry.join(" ");
+    const context: FillerContext = {
+      previous: index > 0 ? tokens[index - 1] : null,
+      next: endIndex < tokens.length ? tokens[endIndex] : null,
+      opensSentence: index === 0 || endsSentence(words[index - 1].word),
+      closesSentence: endsSentence(words[endIndex - 1].word),
+      followedByPause: hasTrailingPause(words[endIndex - 1].word),
+      besideFiller: alwaysAt.has(index - 1) || alwaysAt.has(endIndex),
+    };
+    if ((CONTEXT_RULES[text] ?? discourseMarker)(context)) {
+      matches.push({ startIndex: index, endIndex, text });
+      index = endIndex - 1;
+    }
+  }
+  return matches;
+}
+
+// Every word index covered by a match, for highlighting and exclusion
+export function fillerWordIndexes(matches: FillerMatch[]): Set<number> {
+  const indexes = new Set<number>();
+  matches.forEach((match) => {
+    for (let index = match.startIndex; index < match.endIndex; index++) indexes.add(index);
+  });
+  return indexes;
+}
@@ -0,0 +1,108 @@
+import type { AudioAnalysisResponse, MarketAnalysisResult, PDFAnalysisResponse, PitchContext } from "@/app/services/api";
+
+// Completed analyses are kept in IndexedDB (rather than localStorage) so the
+// recorded audio can be stored alongside the results as a Blob.
+
+const DB_NAME = "pitch-perfect";
+const DB_VERSION = 1;
+const STORE_NAME = "analyses";
+
+export type AnalysisType = "speech" | "slides" | "both";
+
+export interface AnalysisRecord {
+  id: string;
+  createdAt: string; // ISO timestamp
+  title: string;
+  description: string;
+  analysisType: AnalysisType;
+  speechJobId: string | null;
+  deckJobId: string | null;
+  audioResult: AudioAnalysisResponse | null;
+  pdfResult: PDFAnalysisResponse | null;
+  media: Blob | null; // the recorded or uploaded audio/video
+  mediaType: "audio" | "video" | null;
+  deck?: Blob | null; // the uploaded PDF; missing on records saved before slides were kept
+  context?: PitchContext | null;
+  market?: MarketAnalysisResult | null; // latest market analysis run from the results page
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Failed to open analysis history"));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error("Analysis history request failed"));
+    // Quota errors abort the transaction without a request error
+    transaction.onabort = () => reject(transaction.error ?? new Error("Analysis history request was aborted"));
+  });
+}
+
+export async function saveAnalysis(record: AnalysisRecord): Promise<void> {
+  await withStore("readwrite", (store) => store.put(record));
+}
+
+export async function listAnalyses(): Promise<AnalysisRecord[]> {
+  const records = await withStore<AnalysisRecord[]>("readonly", (store) => store.getAll());
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getAnalysis(id: string): Promise<AnalysisRecord | null> {
+  const record = await withStore<AnalysisRecord | undefined>("readonly", (store) => store.get(id));
+  return record ?? null;
+}
+
+// Merges changes into a saved record. Analyses opened from a shared link were
+// never saved in this browser, so there is nothing to update.
+export async function updateAnalysis(id: string, changes: Partial<Omit<AnalysisRecord, "id">>): Promise<void> {
+  const record = await getAnalysis(id);
+  if (record) await saveAnalysis({ ...record, ...changes });
+}
+
+export async function deleteAnalysis(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+// Shareable route for a saved analysis. The record id is the speech job id when
+// there is one, so the deck job is carried separately for the server fallback.
+export function resultsPath(record: Pick<AnalysisRecord, "id" | "deckJobId">, tab?: string): string {
+  const params = new URLSearchParams();
+  if (record.deckJobId && record.deckJobId !== record.id) params.set("deck", record.deckJobId);
+  if (tab) params.set("tab", tab);
+  const query = params.toString();
+  return `/results/${encodeURIComponent(record.id)}${query ? `?${query}` : ""}`;
+}
+
+// Attempts of the same pitch are matched by title, ignoring case and spacing.
+// Untitled analyses have no key, since nothing says they're the same pitch.
+export const pitchKey = (title: string): string | null =>
+  title.trim().toLowerCase().replace(/\s+/g, " ") || null;
+
+export const comparePath = (ids: string[]): string =>
+  `/compare?${new URLSearchParams({ ids: ids.join(",") }).toString()}`;
@@ -0,0 +1,314 @@
+import type { DeckIssueType, LanguageHint, WordAnalysis } from "@/app/services/api";
+
+// Per-language settings for speech analysis. Syllable rates differ between
+// languages (French is spoken with noticeably more syllables per minute than
+// English), so pace bands and UI copy are looked up from the result's language.
+
+export interface PaceThresholds {
+  slowBelow: number; // SPM
+  fastAbove: number;
+  tooFastAbove: number;
+}
+
+export interface SpeechStrings {
+  tabs: { overview: string; transcript: string; timeline: string; loudness: string; insights: string };
+  speed: Record<WordAnalysis["speed"], string>;
+  overallScore: string;
+  scoreMessage: { excellent: string; good: string; practice: string };
+  analyzeAnother: string;
+  duration: string;
+  words: string;
+  avgSpm: string;
+  idealPace: string;
+  fillers: string;
+  performanceMetrics: string;
+  paceDistribution: string;
+  speedBreakdown: string;
+  mostUsedWords: string;
+  fillerAnalysis: string;
+  customize: string;
+  done: string;
+  noFillers: string;
+  fullTranscript: string;
+  fillerLegend: string;
+  tooSlowOrFast: string;
+  wordDetails: string;
+  word: string;
+  speedLabel: string;
+  plainText: string;
+  coachingMoments: string;
+  coachingMomentsHint: string;
+  paceOverTime: string;
+  paceOverTimeHint: (min: number, max: number) => string;
+  volumeOverTime: string;
+  volumeOverTimeHint: string;
+  timeAxis: string;
+  paceTooltip: string;
+  volumeTooltip: string;
+  foundCount: (count: number) => string;
+  averageVolume: string;
+  volumeVariance: string;
+  consistencyScore: string;
+  verdict: string;
+  clarity: string;
+  pacing: string;
+  fillerWords: string;
+  structure: string;
+  engagement: string;
+  audienceFit: string;
+}
+
+export interface CoachingEventStrings {
+  fillerSpikeTitle: (count: number, windowSec: number) => string;
+  fillerSpikeDetail: (at: string) => string;
+  fillerSpikeSuggestion: string;
+  paceFastTitle: string;
+  paceSlowTitle: string;
+  paceDetail: (spm: number, from: string, to: string, pace: PaceThresholds) => string;
+  paceFastSuggestion: string;
+  paceSlowSuggestion: string;
+  pauseTitle: (seconds: string) => string;
+  pauseDetail: (at: string) => string;
+  pauseSuggestion: string;
+  strongTitle: string;
+  strongDetail: (percent: number, from: string, to: string) => string;
+  strongSuggestion: string;
+}
+
+// Headings and labels of the printable report not already in SpeechStrings
+export interface ReportStrings {
+  title: string;
+  audience: string;
+  timeLimit: string;
+  goal: string;
+  speechScore: string;
+  deckScore: string;
+  speechDelivery: string;
+  overallScore: string;
+  insightsAndActions: string;
+  action: string;
+  annotatedTranscript: string;
+  slideDeck: string;
+  slides: string;
+  wordsPerSlide: string;
+  bulletPoints: string;
+  summary: string;
+  topFixes: string;
+  slideNotes: string;
+  slide: (number: number) => string;
+  slideStats: (words: number, bullets: number) => string;
+  noSlideText: string;
+  issueTypes: Record<DeckIssueType, string>;
+}
+
+export interface LanguageConfig {
+  code: LanguageHint;
+  label: string; // in the language itself
+  pace: PaceThresholds;
+  strings: SpeechStrings;
+  events: CoachingEventStrings;
+  report: ReportStrings;
+}
+
+export const DEFAULT_LANGUAGE: LanguageHint = "en";
+
+const LANGUAGES: Record<LanguageHint, LanguageConfig> = {
+  en: {
+    code: "en",
+    label: "English",
+    pace: { slowBelow: 130, fastAbove: 300, tooFastAbove: 400 },
+    strings: {
+      tabs: { overview: "Overview", transcript: "Transcript", timeline: "Pace Timeline", loudness: "Volume Analysis", insights: "AI Insights" },
+      speed: { "Too Slow": "Too Slow", Ideal: "Ideal", Fast: "Fast", "Too Fast": "Too Fast" },
+      overallScore: "Overall Performance Score",
+      scoreMessage: {
+        excellent: "Excellent presentation delivery!",
+        good: "Good performance with room for improvement",
+        practice: "Keep practicing to improve your delivery",
+      },
+      analyzeAnother: "Analyze Another",
+      duration: "Duration",
+      words: "Words",
+      avgSpm: "Avg SPM",
+      idealPace: "Ideal Pace",
+      fillers: "Fillers",
+      performanceMetrics: "Performance Metrics",
+      paceDistribution: "Pace Distribution",
+      speedBreakdown: "Speed Breakdown",
+      mostUsedWords: "Most Used Words",
+      fillerAnalysis: "Filler Word Analysis",
+      customize: "Customize",
+      done: "Done",
+      noFillers: "No filler words detected.",
+      fullTranscript: "Full Transcript",
+      fillerLegend: "Filler",
+      tooSlowOrFast: "Too Slow/Fast",
+      wordDetails: "Word Details",
+      word: "Word",
+      speedLabel: "Speed",
+      plainText: "Plain Text",
+      coachingMoments: "Coaching Moments",
+      coachingMomentsHint: "Moments worth reviewing. Click a marker to jump to it in the recording.",
+      paceOverTime: "Speaking Pace Over Time",
+      paceOverTimeHint: (min, max) => `Syllables per minute (SPM) throughout your presentation. Ideal range: ${min}-${max} SPM`,
+      volumeOverTime: "Volume Over Time",
+      volumeOverTimeHint: "Audio loudness in decibels (dB) relative to peak. Consistent volume indicates steady delivery.",
+      timeAxis: "Time (s)",
+      paceTooltip: "Pace",
+      volumeTooltip: "Volume",
+      foundCount: (count) => `${count} found`,
+      averageVolume: "Average Volume",
+      volumeVariance: "Volume Variance",
+      consistencyScore: "Consistency Score",
+      verdict: "The Verdict",
+      clarity: "Clarity",
+      pacing: "Pacing",
+      fillerWords: "Filler Words",
+      structure: "Structure",
+      engagement: "Engagement",
+      audienceFit: "Audience Fit",
+    },
+    events: {
+      fillerSpikeTitle: (count, windowSec) => `${count} filler words in ${windowSec}s`,
+      fillerSpikeDetail: (at) => `Filler words clustered around ${at}.`,
+      fillerSpikeSuggestion: "Replace fillers with a short silent pause while you gather the next thought.",
+      paceFastTitle: "Speaking too fast",
+      paceSlowTitle: "Speaking too slowly",
+      paceDetail: (spm, from, to, pace) => `Averaged ${spm} SPM from ${from} to ${to} (ideal ${pace.slowBelow}-${pace.fastAbove}).`,
+      paceFastSuggestion: "Slow down here and pause after key points so they land.",
+      paceSlowSuggestion: "Pick up the pace and cut hesitations to keep the energy up.",
+      pauseTitle: (seconds) => `${seconds}s silence`,
+      pauseDetail: (at) => `The recording goes quiet at ${at}.`,
+      pauseSuggestion: "Short pauses add emphasis, but long gaps read as lost place. Keep notes or a bridge phrase ready.",
+      strongTitle: "Strong delivery",
+      strongDetail: (percent, from, to) => `${percent}% of words at an ideal pace with no fillers from ${from} to ${to}.`,
+      strongSuggestion: "Use this stretch as the model for the rest of the pitch.",
+    },
+    report: {
+      title: "Coaching Report",
+      audience: "Audience",
+      timeLimit: "Time limit",
+      goal: "Goal",
+      speechScore: "Speech score",
+      deckScore: "Slide deck score",
+      speechDelivery: "Speech Delivery",
+      overallScore: "Overall score",
+      insightsAndActions: "Insights & Actions",
+      action: "Action",
+      annotatedTranscript: "Annotated Transcript",
+      slideDeck: "Slide Deck",
+      slides: "Slides",
+      wordsPerSlide: "Words per slide",
+      bulletPoints: "Bullet points",
+      summary: "Summary",
+      topFixes: "Top Fixes",
+      slideNotes: "Slide-by-Slide Notes",
+      slide: (number) => `Slide ${number}`,
+      slideStats: (words, bullets) => `${words} words, ${bullets} bullets`,
+      noSlideText: "No text on this slide.",
+      issueTypes: { clarity: "Clarity", density: "Density", story: "Story", visual: "Visual" },
+    },
+  },
+  fr: {
+    code: "fr",
+    label: "Français",
+    pace: { slowBelow: 150, fastAbove: 350, tooFastAbove: 460 },
+    strings: {
+      tabs: { overview: "Vue d'ensemble", transcript: "Transcription", timeline: "Rythme", loudness: "Volume", insights: "Analyse IA" },
+      speed: { "Too Slow": "Trop lent", Ideal: "Idéal", Fast: "Rapide", "Too Fast": "Trop rapide" },
+      overallScore: "Score global",
+      scoreMessage: {
+        excellent: "Excellente présentation !",
+        good: "Bonne prestation, avec une marge de progression",
+        practice: "Continuez à vous entraîner pour améliorer votre élocution",
+      },
+      analyzeAnother: "Nouvelle analyse",
+      duration: "Durée",
+      words: "Mots",
+      avgSpm: "SPM moyen",
+      idealPace: "Rythme idéal",
+      fillers: "Mots parasites",
+      performanceMetrics: "Indicateurs de performance",
+      paceDistribution: "Répartition du rythme",
+      speedBreakdown: "Détail des vitesses",
+      mostUsedWords: "Mots les plus utilisés",
+      fillerAnalysis: "Analyse des mots parasites",
+      customize: "Personnaliser",
+      done: "Terminé",
+      noFillers: "Aucun mot parasite détecté.",
+      fullTranscript: "Transcription complète",
+      fillerLegend: "Mot parasite",
+      tooSlowOrFast: "Trop lent/rapide",
+      wordDetails: "Détails du mot",
+      word: "Mot",
+      speedLabel: "Vitesse",
+      plainText: "Texte brut",
+      coachingMoments: "Moments clés",
+      coachingMomentsHint: "Les passages à revoir. Cliquez sur un repère pour l'écouter dans l'enregistrement.",
+      paceOverTime: "Rythme au fil du temps",
+      paceOverTimeHint: (min, max) => `Syllabes par minute (SPM) tout au long de la présentation. Plage idéale : ${min}-${max} SPM`,
+      volumeOverTime: "Volume au fil du temps",
+      volumeOverTimeHint: "Volume en décibels (dB) par rapport au pic. Un volume régulier traduit une élocution posée.",
+      timeAxis: "Temps (s)",
+      paceTooltip: "Rythme",
+      volumeTooltip: "Volume",
+      foundCount: (count) => `${count} trouvé${count > 1 ? "s" : ""}`,
+      averageVolume: "Volume moyen",
+      volumeVariance: "Variance du volume",
+      consistencyScore: "Score de régularité",
+      verdict: "Le verdict",
+      clarity: "Clarté",
+      pacing: "Rythme",
+      fillerWords: "Mots parasites",
+      structure: "Structure",
+      engagement: "Engagement",
+      audienceFit: "Adéquation au public",
+    },
+    events: {
+      fillerSpikeTitle: (count, windowSec) => `${count} mots parasites en ${windowSec} s`,
+      fillerSpikeDetail: (at) => `Mots parasites groupés vers ${at}.`,
+      fillerSpikeSuggestion: "Remplacez-les par une courte pause silencieuse le temps de formuler l'idée suivante.",
+      paceFastTitle: "Débit trop rapide",
+      paceSlowTitle: "Débit trop lent",
+      paceDetail: (spm, from, to, pace) => `${spm} SPM en moyenne de ${from} à ${to} (idéal ${pace.slowBelow}-${pace.fastAbove}).`,
+      paceFastSuggestion: "Ralentissez ici et marquez une pause après les points clés.",
+      paceSlowSuggestion: "Accélérez un peu et supprimez les hésitations pour garder l'énergie.",
+      pauseTitle: (seconds) => `${seconds} s de silence`,
+      pauseDetail: (at) => `L'enregistrement devient silencieux à ${at}.`,
+      pauseSuggestion: "Une courte pause met en valeur, un long blanc donne l'impression d'avoir perdu le fil. Gardez vos notes ou une transition à portée.",
+      strongTitle: "Passage réussi",
+      strongDetail: (percent, from, to) => `${percent} % des mots à un rythme idéal, sans mot parasite, de ${from} à ${to}.`,
+      strongSuggestion: "Prenez ce passage comme modèle pour le reste du pitch.",
+    },
+    report: {
+      title: "Rapport de coaching",
+      audience: "Public",
+      timeLimit: "Durée imposée",
+      goal: "Objectif",
+      speechScore: "Score oral",
+      deckScore: "Score du support",
+      speechDelivery: "Prise de parole",
+      overallScore: "Score global",
+      insightsAndActions: "Analyse et actions",
+      action: "Action",
+      annotatedTranscript: "Transcription annotée",
+      slideDeck: "Support de présentation",
+      slides: "Diapositives",
+      wordsPerSlide: "Mots par diapositive",
+      bulletPoints: "Puces",
+      summary: "Résumé",
+      topFixes: "Corrections prioritaires",
+      slideNotes: "Notes par diapositive",
+      slide: (number) => `Diapositive ${number}`,
+      slideStats: (words, bullets) => `${words} mots, ${bullets} puces`,
+      noSlideText: "Aucun texte sur cette diapositive.",
+      issueTypes: { clarity: "Clarté", density: "Densité", story: "Récit", visual: "Visuel" },
+    },
+  },
+};
+
+export const LANGUAGE_OPTIONS = Object.values(LANGUAGES).map(({ code, label }) => ({ value: code, label }));
+
+// Results from before language support have no language and are English
+export const getLanguage = (code?: LanguageHint | null): LanguageConfig =>
+  LANGUAGES[code ?? DEFAULT_LANGUAGE] ?? LANGUAGES[DEFAULT_LANGUAGE];
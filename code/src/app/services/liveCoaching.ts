@@ -0,0 +1,104 @@
+// Rough in-browser delivery metrics computed from the microphone while
+// recording. They're only meant for live nudges; the full analysis still
+// happens on the server after upload.
+
+export type LiveNudge = "too_quiet" | "too_loud";
+
+export interface LiveCoachingSnapshot {
+  volumeDb: number | null; // average level while speaking, dBFS; null when silent
+  paceSpm: number | null; // estimated syllables per minute; null until there's enough speech
+  nudge: LiveNudge | null;
+}
+
+export interface LiveMeter {
+  push: (samples: Float32Array, timeMs: number) => void;
+  snapshot: () => LiveCoachingSnapshot;
+  reset: () => void;
+}
+
+const SPEECH_DB = -50; // frames quieter than this are treated as silence
+export const QUIET_DB = -35;
+export const LOUD_DB = -6;
+const LOUD_FRAME_RATIO = 0.15; // share of speaking frames near clipping before warning
+const VOLUME_WINDOW_MS = 3000;
+const PACE_WINDOW_MS = 10000;
+const MIN_PACE_SPEECH_MS = 3000;
+const MIN_SYLLABLE_GAP_MS = 100; // syllables rarely come faster than ~10 per second
+const SYLLABLE_RISE_DB = 3; // a peak must stand this far above the dip before it
+const MAX_FRAME_MS = 200; // caps the gap counted after a pause in recording
+
+interface Frame {
+  timeMs: number;
+  db: number;
+  durationMs: number;
+}
+
+const toDb = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+};
+
+// Counts syllable nuclei as peaks in the loudness envelope, which tracks
+// speaking rate well enough for a live estimate without a speech model.
+export function createLiveMeter(): LiveMeter {
+  let frames: Frame[] = [];
+  let peaks: number[] = [];
+  let dipSinceLastPeak = Infinity;
+  let lastPeakMs = -Infinity;
+
+  const prune = (nowMs: number) => {
+    frames = frames.filter((frame) => nowMs - frame.timeMs <= PACE_WINDOW_MS);
+    peaks = peaks.filter((timeMs) => nowMs - timeMs <= PACE_WINDOW_MS);
+  };
+
+  const push = (samples: Float32Array, timeMs: number) => {
+    const db = toDb(samples);
+    const previous = frames[frames.length - 1];
+    const beforePrevious = frames[frames.length - 2];
+    frames.push({ timeMs, db, durationMs: previous ? Math.min(timeMs - previous.timeMs, MAX_FRAME_MS) : 0 });
+
+    // The previous frame is a peak when it's higher than both of its neighbours
+    if (previous && beforePrevious && previous.db > beforePrevious.db && previous.db >= db) {
+      const isSyllable = previous.db > SPEECH_DB
+        && previous.db - dipSinceLastPeak >= SYLLABLE_RISE_DB
+        && previous.timeMs - lastPeakMs >= MIN_SYLLABLE_GAP_MS;
+      if (isSyllable) {
+        peaks.push(previous.timeMs);
+        lastPeakMs = previous.timeMs;
+        dipSinceLastPeak = Infinity;
+      }
+    }
+    dipSinceLastPeak = Math.min(dipSinceLastPeak, db);
+    prune(timeMs);
+  };
+
+  const snapshot = (): LiveCoachingSnapshot => {
+    const nowMs = frames[frames.length - 1]?.timeMs ?? 0;
+    const speaking = frames.filter((frame) => frame.db > SPEECH_DB);
+    const recent = speaking.filter((frame) => nowMs - frame.timeMs <= VOLUME_WINDOW_MS);
+
+    const volumeDb = recent.length > 0 ? recent.reduce((sum, frame) => sum + frame.db, 0) / recent.length : null;
+    const speechMs = speaking.reduce((sum, frame) => sum + frame.durationMs, 0);
+    const paceSpm = speechMs >= MIN_PACE_SPEECH_MS ? Math.round((peaks.length / speechMs) * 60000) : null;
+
+    let nudge: LiveNudge | null = null;
+    if (recent.length > 0 && recent.filter((frame) => frame.db > LOUD_DB).length / recent.length >= LOUD_FRAME_RATIO) {
+      nudge = "too_loud";
+    } else if (volumeDb !== null && volumeDb < QUIET_DB) {
+      nudge = "too_quiet";
+    }
+
+    return { volumeDb, paceSpm, nudge };
+  };
+
+  const reset = () => {
+    frames = [];
+    peaks = [];
+    dipSinceLastPeak = Infinity;
+    lastPeakMs = -Infinity;
+  };
+
+  return { push, snapshot, reset };
+}
@@ -0,0 +1,206 @@
+import type { AudioAnalysisResponse, PDFAnalysisResponse } from "@/app/services/api";
+import { calculateSpeedDistribution, calculateAverageSPM } from "@/app/services/api";
+import { detectFillers, getFillerDictionary, type FillerDictionary, type FillerMatch } from "@/app/services/fillers";
+
+// ============ Speech Metrics ============
+
+// One axis of a radar chart, 0-100
+export interface PerformancePoint {
+  metric: string;
+  value: number;
+  fullMark: number;
+}
+
+export interface SpeechMetrics {
+  totalWords: number;
+  fillerMatches: FillerMatch[];
+  fillerCount: number;
+  fillerPercentage: number;
+  avgSPM: number;
+  duration: number;
+  wpm: number;
+  idealPercentage: number;
+  avgLoudness: number;
+  loudnessVariance: number;
+  overallScore: number;
+}
+
+export function calculateSpeechMetrics(
+  data: AudioAnalysisResponse,
+  dictionary: FillerDictionary = getFillerDictionary(data.language),
+): SpeechMetrics {
+  const words = data.word_analysis || [];
+  const timestamps = data.timestamps || [];
+  const loudnessData = data.loudness || [];
+
+  const totalWords = words.length;
+  const fillerMatches = detectFillers(words, dictionary);
+  const fillerCount = fillerMatches.length;
+  const fillerPercentage = totalWords > 0 ? (fillerCount / totalWords) * 100 : 0;
+
+  const speedDistribution = calculateSpeedDistribution(words);
+  const avgSPM = calculateAverageSPM(words);
+
+  // Calculate duration from timestamps
+  const duration = timestamps.length > 0 ? timestamps[timestamps.length - 1][0] : 0;
+
+  // Words per minute (based on actual word count and duration)
+  const wpm = duration > 0 ? (totalWords / duration) * 60 : 0;
+
+  const idealPercentage = totalWords > 0 ? (speedDistribution["Ideal"] / totalWords) * 100 : 0;
+
+  const avgLoudness = loudnessData.length > 0
+    ? loudnessData.reduce((sum, [, db]) => sum + db, 0) / loudnessData.length
+    : 0;
+
+  // Loudness variance (for consistency metric)
+  const loudnessVariance = loudnessData.length > 0
+    ? Math.sqrt(
+        loudnessData.reduce((sum, [, db]) => sum + Math.pow(db - avgLoudness, 2), 0) /
+          loudnessData.length
+      )
+    : 0;
+
+  const overallScore = Math.round(
+    idealPercentage * 0.35 +
+    Math.max(0, 100 - fillerPercentage * 10) * 0.25 +
+    Math.max(0, 100 - loudnessVariance * 5) * 0.2 +
+    Math.min(100, (totalWords / 100) * 50 + 50) * 0.2
+  );
+
+  return {
+    totalWords,
+    fillerMatches,
+    fillerCount,
+    fillerPercentage,
+    avgSPM,
+    duration,
+    wpm,
+    idealPercentage,
+    avgLoudness,
+    loudnessVariance,
+    overallScore,
+  };
+}
+
+export function speechPerformanceData(metrics: SpeechMetrics): PerformancePoint[] {
+  return [
+    { metric: "Pace", value: Math.min(100, Math.round(metrics.idealPercentage)), fullMark: 100 },
+    { metric: "Fluency", value: Math.round(Math.max(0, 100 - metrics.fillerPercentage * 10)), fullMark: 100 },
+    { metric: "Consistency", value: Math.round(Math.max(0, 100 - metrics.loudnessVariance * 5)), fullMark: 100 },
+    { metric: "Volume", value: Math.round(Math.max(0, Math.min(100, 100 + metrics.avgLoudness * 2))), fullMark: 100 },
+    { metric: "Content", value: Math.min(100, Math.round((metrics.totalWords / 100) * 50 + 50)), fullMark: 100 },
+  ];
+}
+
+// ============ Deck Metrics ============
+
+export interface SlideStats {
+  pageNumber: number;
+  text: string;
+  wordCount: number;
+  charCount: number;
+  lineCount: number;
+  bulletPoints: number;
+  hasHeading: boolean;
+  contentDensity: number;
+}
+
+export interface DeckMetrics {
+  slideStats: SlideStats[];
+  totalWords: number;
+  totalChars: number;
+  totalBullets: number;
+  avgWordsPerSlide: number;
+  structureScore: number;
+  clarityScore: number;
+  contentScore: number;
+  balanceScore: number;
+  engagementScore: number;
+  overallScore: number;
+}
+
+export function calculateDeckMetrics(data: PDFAnalysisResponse): DeckMetrics {
+  const pages = data.pages || [];
+  const totalPages = data.total_pages || 0;
+
+  // Calculate text statistics per slide
+  const slideStats = pages.map((page) => {
+    const text = page.text || "";
+    const wordCount = text.split(/\s+/).filter((w) => w.length > 0).length;
+    const charCount = text.length;
+    const lineCount = text.split("\n").filter((l) => l.trim().length > 0).length;
+    const bulletPoints = (text.match(/^[\s]*[-•*]\s/gm) || []).length;
+    const hasHeading = /^[A-Z][^.!?]*$/m.test(text);
+
+    return {
+      pageNumber: page.page_number,
+      text,
+      wordCount,
+      charCount,
+      lineCount,
+      bulletPoints,
+      hasHeading,
+      contentDensity: wordCount > 0 ? Math.min(100, Math.round((wordCount / 50) * 100)) : 0,
+    };
+  });
+
+  // Total statistics
+  const totalWords = slideStats.reduce((sum, s) => sum + s.wordCount, 0);
+  const totalChars = slideStats.reduce((sum, s) => sum + s.charCount, 0);
+  const totalBullets = slideStats.reduce((sum, s) => sum + s.bulletPoints, 0);
+  const avgWordsPerSlide = totalPages > 0 ? Math.round(totalWords / totalPages) : 0;
+
+  // Calculate overall scores based on presentation best practices
+  const structureScore = Math.min(100, Math.round(
+    (totalBullets > 0 ? 30 : 0) +
+    (avgWordsPerSlide >= 20 && avgWordsPerSlide <= 60 ? 40 : avgWordsPerSlide < 20 ? 20 : 10) +
+    (totalPages >= 5 && totalPages <= 20 ? 30 : 15)
+  ));
+
+  const clarityScore = Math.min(100, Math.round(
+    (avgWordsPerSlide <= 50 ? 50 : 25) +
+    (slideStats.filter((s) => s.bulletPoints > 0).length / Math.max(1, totalPages)) * 50
+  ));
+
+  const contentScore = Math.min(100, Math.round(
+    (totalWords >= 100 ? 40 : (totalWords / 100) * 40) +
+    (totalPages >= 5 ? 30 : (totalPages / 5) * 30) +
+    30
+  ));
+
+  const balanceScore = Math.round(100 - (Math.abs(avgWordsPerSlide - 40) * 2));
+  const engagementScore = Math.round(70 + (totalBullets / Math.max(1, totalPages)) * 10);
+
+  const overallScore = Math.round(
+    structureScore * 0.25 +
+    clarityScore * 0.25 +
+    contentScore * 0.25 +
+    balanceScore * 0.15 +
+    engagementScore * 0.1
+  );
+
+  return {
+    slideStats,
+    totalWords,
+    totalChars,
+    totalBullets,
+    avgWordsPerSlide,
+    structureScore,
+    clarityScore,
+    contentScore,
+    balanceScore,
+    engagementScore,
+    overallScore,
+  };
+}
+
+export function deckPerformanceData(metrics: DeckMetrics): PerformancePoint[] {
+  return [
+    { metric: "Structure", value: metrics.structureScore, fullMark: 100 },
+    { metric: "Clarity", value: metrics.clarityScore, fullMark: 100 },
+    { metric: "Content", value: metrics.contentScore, fullMark: 100 },
+    { metric: "Balance", value: metrics.balanceScore, fullMark: 100 },
+    { metric: "Engagement", value: metrics.engagementScore, fullMark: 100 },
+  ];
+}
@@ -0,0 +1,32 @@
+import type { AudienceType, PitchContext } from "@/app/services/api";
+
+export const AUDIENCE_OPTIONS: { value: AudienceType; label: string; phrase: string }[] = [
+  { value: "seed_investors", label: "Seed investors", phrase: "a seed-stage investor audience" },
+  { value: "growth_investors", label: "Series A+ investors", phrase: "a growth-stage investor audience" },
+  { value: "customers", label: "Customers", phrase: "prospective customers" },
+  { value: "judges", label: "Competition judges", phrase: "a panel of competition judges" },
+  { value: "internal", label: "Internal team", phrase: "an internal team audience" },
+  { value: "general", label: "General audience", phrase: "a general audience" },
+];
+
+export const TIME_LIMIT_OPTIONS = [60, 180, 300, 600, 900]; // seconds
+
+export const formatTimeLimit = (seconds: number): string =>
+  seconds % 60 === 0 ? `${seconds / 60} min` : `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+
+export const audiencePhrase = (audienceType: AudienceType | null): string | null =>
+  AUDIENCE_OPTIONS.find((option) => option.value === audienceType)?.phrase ?? null;
+
+// Trims free text and drops empty fields; returns null when nothing was filled in
+export function normalizePitchContext(context: PitchContext): PitchContext | null {
+  const normalized: PitchContext = {
+    title: context.title.trim(),
+    description: context.description.trim(),
+    audienceType: context.audienceType,
+    timeLimitSec: context.timeLimitSec && context.timeLimitSec > 0 ? context.timeLimitSec : null,
+    goal: context.goal?.trim() || null,
+  };
+  const isEmpty = !normalized.title && !normalized.description && !normalized.audienceType
+    && !normalized.timeLimitSec && !normalized.goal;
+  return isEmpty ? null : normalized;
+}
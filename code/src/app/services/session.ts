@@ -0,0 +1,40 @@
+// Anonymous session identity. The backend has no accounts, so every browser
+// gets a random id that is sent with each API call to associate results.
+
+const SESSION_STORAGE_KEY = "pitchcoach_session_id";
+const SESSION_HEADER = "X-Session-Id";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isValidSessionId(value: string): boolean {
+  return UUID_PATTERN.test(value.trim());
+}
+
+export function getSessionId(): string {
+  if (typeof window === "undefined") return "";
+
+  const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (stored && isValidSessionId(stored)) return stored;
+
+  const sessionId = crypto.randomUUID();
+  localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+  return sessionId;
+}
+
+// Replaces this browser's session with one exported from another browser so
+// its analysis history follows the user.
+export function importSessionId(value: string): string {
+  const sessionId = value.trim().toLowerCase();
+  if (!isValidSessionId(sessionId)) {
+    throw new Error("That doesn't look like a valid session ID");
+  }
+  localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+  return sessionId;
+}
+
+export function sessionHeaders(headers: HeadersInit = {}): Headers {
+  const merged = new Headers(headers);
+  const sessionId = getSessionId();
+  if (sessionId) merged.set(SESSION_HEADER, sessionId);
+  return merged;
+}
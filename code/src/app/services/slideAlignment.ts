@@ -0,0 +1,145 @@
+import type { AudioAnalysisResponse, PDFAnalysisResponse } from "@/app/services/api";
+import { computeWordTimings } from "@/app/services/timing";
+
+// Estimates which slide was on screen at each point of the talk by matching
+// transcript windows against slide text. Talks are assumed to move forward
+// through the deck, so the assignment is monotonic: slides can be skipped but
+// never revisited.
+
+export interface SlideSegment {
+  pageNumber: number;
+  start: number; // seconds
+  end: number;
+}
+
+export interface SlideTime {
+  pageNumber: number;
+  seconds: number;
+}
+
+export interface SlideAlignment {
+  segments: SlideSegment[];
+  timePerSlide: SlideTime[];
+  unmentioned: number[]; // page numbers whose content never came up in the talk
+}
+
+const WINDOW_WORDS = 20;
+const WINDOW_STEP = 10;
+const MIN_SHARED_TERMS = 2; // distinct slide terms a window must mention to count as discussing it
+const POSITION_WEIGHT = 2; // pull towards an even spread when the text gives no signal
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "had", "her", "was", "one", "our",
+  "out", "has", "have", "his", "how", "its", "may", "new", "now", "see", "two", "who", "why", "did", "get",
+  "let", "say", "she", "too", "use", "that", "with", "this", "from", "they", "will", "would", "there",
+  "their", "what", "about", "which", "when", "make", "like", "just", "into", "than", "them", "then",
+  "some", "could", "your", "also", "more", "very", "been", "were", "here", "these", "those", "over",
+  "only", "each", "such", "well", "where", "being", "other", "because", "really", "going", "know",
+]);
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 3 && !STOP_WORDS.has(token));
+
+export function alignSlidesToSpeech(audio: AudioAnalysisResponse, pdf: PDFAnalysisResponse): SlideAlignment {
+  const words = audio.word_analysis || [];
+  const timestamps = audio.timestamps || [];
+  const pages = [...(pdf.pages || [])].sort((a, b) => a.page_number - b.page_number);
+  if (words.length === 0 || pages.length === 0) {
+    return { segments: [], timePerSlide: [], unmentioned: [] };
+  }
+
+  const duration = timestamps.length > 0 ? timestamps[timestamps.length - 1][0] : 0;
+  const timings = computeWordTimings(words, timestamps, duration);
+  const endTime = Math.max(duration, timings[timings.length - 1].end);
+
+  // Terms that appear on fewer slides say more about which slide is meant
+  const slideTerms = pages.map((page) => new Set(tokenize(page.text)));
+  const documentFrequency = new Map<string, number>();
+  slideTerms.forEach((terms) => terms.forEach((term) => {
+    documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }));
+  const weight = (term: string) => Math.log(1 + pages.length / (documentFrequency.get(term) ?? pages.length));
+
+  // Overlapping transcript windows
+  const windows: { startIndex: number; terms: Set<string> }[] = [];
+  for (let startIndex = 0; startIndex < words.length; startIndex += WINDOW_STEP) {
+    const text = words.slice(startIndex, startIndex + WINDOW_WORDS).map((word) => word.word).join(" ");
+    windows.push({ startIndex, terms: new Set(tokenize(text)) });
+    if (startIndex + WINDOW_WORDS >= words.length) break;
+  }
+
+  const mentioned = new Set<number>();
+  const scores = windows.map((window) =>
+    slideTerms.map((terms, slideIndex) => {
+      let shared = 0;
+      let score = 0;
+      window.terms.forEach((term) => {
+        if (terms.has(term)) {
+          shared++;
+          score += weight(term);
+        }
+      });
+      if (shared >= MIN_SHARED_TERMS) mentioned.add(slideIndex);
+      return score;
+    }),
+  );
+
+  // Monotonic best path: best[w][s] is the best total score with window w on slide s
+  const slideCount = pages.length;
+  const windowCount = windows.length;
+  const positionPenalty = (w: number, s: number) => {
+    const expected = windowCount > 1 ? (w / (windowCount - 1)) * (slideCount - 1) : 0;
+    return POSITION_WEIGHT * (Math.abs(s - expected) / Math.max(1, slideCount - 1));
+  };
+
+  const best: number[][] = [];
+  const from: number[][] = [];
+  for (let w = 0; w < windowCount; w++) {
+    best.push([]);
+    from.push([]);
+    let runningMax = -Infinity;
+    let runningArg = 0;
+    for (let s = 0; s < slideCount; s++) {
+      if (w > 0 && best[w - 1][s] > runningMax) {
+        runningMax = best[w - 1][s];
+        runningArg = s;
+      }
+      const previous = w === 0 ? 0 : runningMax;
+      best[w].push(previous + scores[w][s] - positionPenalty(w, s));
+      from[w].push(runningArg);
+    }
+  }
+
+  const path = new Array<number>(windowCount);
+  path[windowCount - 1] = best[windowCount - 1].indexOf(Math.max(...best[windowCount - 1]));
+  for (let w = windowCount - 1; w > 0; w--) {
+    path[w - 1] = from[w][path[w]];
+  }
+
+  // Merge consecutive windows on the same slide into segments
+  const segments: SlideSegment[] = [];
+  path.forEach((slideIndex, w) => {
+    const start = w === 0 ? 0 : timings[windows[w].startIndex].start;
+    const last = segments[segments.length - 1];
+    if (last && last.pageNumber === pages[slideIndex].page_number) return;
+    if (last) last.end = start;
+    segments.push({ pageNumber: pages[slideIndex].page_number, start, end: endTime });
+  });
+
+  const timePerSlide = pages.map((page) => ({
+    pageNumber: page.page_number,
+    seconds: segments
+      .filter((segment) => segment.pageNumber === page.page_number)
+      .reduce((sum, segment) => sum + (segment.end - segment.start), 0),
+  }));
+
+  // Slides without any text (e.g. image-only) can't be matched, so they aren't reported
+  const unmentioned = pages
+    .filter((page, index) => slideTerms[index].size > 0 && !mentioned.has(index))
+    .map((page) => page.page_number);
+
+  return { segments, timePerSlide, unmentioned };
+}
@@ -0,0 +1,60 @@
+// Renders PDF pages to images in the browser with pdf.js. The library is
+// loaded on demand so it stays out of the main bundle and off the server.
+
+const TARGET_WIDTH = 1280; // px; large enough for the full-size viewer
+const IMAGE_QUALITY = 0.85;
+
+async function loadPdfJs() {
+  const pdfjs = await import("pdfjs-dist");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+  }
+  return pdfjs;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode slide image"))),
+      "image/jpeg",
+      IMAGE_QUALITY,
+    );
+  });
+}
+
+// Returns one object URL per page, in page order. Callers own the URLs and
+// should release them with revokeSlideImages.
+export async function renderSlideImages(file: Blob, signal?: AbortSignal): Promise<string[]> {
+  const pdfjs = await loadPdfJs();
+  const loadingTask = pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) });
+  const urls: string[] = [];
+
+  try {
+    const pdf = await loadingTask.promise;
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      if (signal?.aborted) throw new DOMException("Slide rendering aborted", "AbortError");
+
+      const page = await pdf.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: TARGET_WIDTH / baseViewport.width });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+
+      urls.push(URL.createObjectURL(await canvasToBlob(canvas)));
+      page.cleanup();
+    }
+    return urls;
+  } catch (error) {
+    revokeSlideImages(urls);
+    throw error;
+  } finally {
+    await loadingTask.destroy();
+  }
+}
+
+export function revokeSlideImages(urls: string[]): void {
+  urls.forEach((url) => URL.revokeObjectURL(url));
+}
@@ -0,0 +1,83 @@
+import type { AudioAnalysisResponse } from "@/app/services/api";
+import { detectFillers, getFillerDictionary } from "@/app/services/fillers";
+import { computeWordTimings } from "@/app/services/timing";
+
+export const WARNING_SECONDS = [60, 30]; // remaining time at which the recorder warns
+
+export interface CutSuggestion {
+  text: string;
+  wordCount: number;
+}
+
+export interface TimeLimitReport {
+  limitSec: number;
+  durationSec: number;
+  deltaSec: number; // positive when over the limit, negative when under
+  currentWpm: number;
+  requiredWpm: number; // pace that would fit the same words into the limit
+  overrunWordCount: number;
+  overrunText: string; // what was said after the limit ran out
+  fillerCount: number;
+  fillerSavingsSec: number; // time saved by dropping every filler word
+  cutSuggestions: CutSuggestion[];
+}
+
+const MAX_CUT_SUGGESTIONS = 3;
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+// Longest sentences first, skipping the opening which usually carries the hook,
+// until enough words are covered to make up the overrun.
+function suggestCuts(transcription: string, wordsToCut: number): CutSuggestion[] {
+  if (wordsToCut <= 0) return [];
+
+  const sentences = transcription
+    .split(/(?<=[.!?])\s+/)
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .slice(1)
+    .map((text) => ({ text, wordCount: countWords(text) }))
+    .sort((a, b) => b.wordCount - a.wordCount);
+
+  const suggestions: CutSuggestion[] = [];
+  let covered = 0;
+  for (const sentence of sentences) {
+    if (covered >= wordsToCut || suggestions.length >= MAX_CUT_SUGGESTIONS) break;
+    suggestions.push(sentence);
+    covered += sentence.wordCount;
+  }
+  return suggestions;
+}
+
+export function analyzeTimeLimit(data: AudioAnalysisResponse, limitSec: number): TimeLimitReport | null {
+  const words = data.word_analysis || [];
+  const timestamps = data.timestamps || [];
+  if (words.length === 0 || limitSec <= 0) return null;
+
+  const lastTimestamp = timestamps.length > 0 ? timestamps[timestamps.length - 1][0] : 0;
+  const timings = computeWordTimings(words, timestamps, lastTimestamp);
+  const durationSec = Math.max(lastTimestamp, timings[timings.length - 1]?.end ?? 0);
+  if (durationSec <= 0) return null;
+
+  const secondsPerWord = durationSec / words.length;
+  const overrunWords = words.filter((_, index) => timings[index].start >= limitSec);
+  const fillers = detectFillers(words, getFillerDictionary(data.language));
+  const fillerCount = fillers.length;
+  const fillerWordCount = fillers.reduce((sum, match) => sum + (match.endIndex - match.startIndex), 0);
+
+  // Fillers are the cheapest cut, so only the remainder needs content trimmed
+  const wordsToCut = Math.max(0, overrunWords.length - fillerWordCount);
+
+  return {
+    limitSec,
+    durationSec,
+    deltaSec: durationSec - limitSec,
+    currentWpm: Math.round((words.length / durationSec) * 60),
+    requiredWpm: Math.round((words.length / limitSec) * 60),
+    overrunWordCount: overrunWords.length,
+    overrunText: overrunWords.map((word) => word.word).join(" "),
+    fillerCount,
+    fillerSavingsSec: Math.round(fillerWordCount * secondsPerWord),
+    cutSuggestions: suggestCuts(data.transcription || "", wordsToCut),
+  };
+}
@@ -0,0 +1,97 @@
+import type { WordAnalysis } from "@/app/services/api";
+
+export interface WordTiming {
+  start: number;
+  end: number;
+}
+
+const hasTiming = (word: WordAnalysis): word is WordAnalysis & WordTiming =>
+  Number.isFinite(word.start) && Number.isFinite(word.end);
+
+// Word start/end times in seconds. Uses the STT word times when every word has
+// them; otherwise estimates them from the [end_time, spm] pace series.
+export function computeWordTimings(
+  words: WordAnalysis[],
+  timestamps: [number, number][],
+  fallbackDuration: number,
+): WordTiming[] {
+  if (words.length === 0) return [];
+
+  if (words.every(hasTiming)) {
+    return words.map((word) => ({ start: word.start, end: word.end }));
+  }
+
+  // One pace sample per word: each sample's end_time is that word's end
+  if (timestamps.length === words.length) {
+    return timestamps.map(([end], index) => ({
+      start: index === 0 ? 0 : timestamps[index - 1][0],
+      end,
+    }));
+  }
+
+  return interpolateFromPace(words.length, timestamps, fallbackDuration);
+}
+
+// Spreads words over time in proportion to the speaking rate, so fast stretches
+// get more words and silent stretches (spm 0) get none.
+function interpolateFromPace(
+  wordCount: number,
+  timestamps: [number, number][],
+  fallbackDuration: number,
+): WordTiming[] {
+  // Cumulative syllables spoken at each segment boundary
+  const boundaries: { time: number; spoken: number }[] = [{ time: 0, spoken: 0 }];
+  for (const [end, spm] of timestamps) {
+    const previous = boundaries[boundaries.length - 1];
+    if (end <= previous.time) continue;
+    boundaries.push({
+      time: end,
+      spoken: previous.spoken + (Math.max(0, spm) / 60) * (end - previous.time),
+    });
+  }
+
+  const totalSpoken = boundaries[boundaries.length - 1].spoken;
+  if (totalSpoken <= 0) {
+    const duration = boundaries.length > 1 ? boundaries[boundaries.length - 1].time : fallbackDuration;
+    const wordDuration = duration / wordCount;
+    return Array.from({ length: wordCount }, (_, index) => ({
+      start: index * wordDuration,
+      end: (index + 1) * wordDuration,
+    }));
+  }
+
+  let segment = 1;
+  const timeAt = (spoken: number): number => {
+    while (segment < boundaries.length - 1 && boundaries[segment].spoken < spoken) segment++;
+    const from = boundaries[segment - 1];
+    const to = boundaries[segment];
+    const span = to.spoken - from.spoken;
+    if (span <= 0) return to.time;
+    return from.time + ((spoken - from.spoken) / span) * (to.time - from.time);
+  };
+
+  // Boundaries are visited in increasing order, so the segment cursor only moves forward
+  const edges = Array.from({ length: wordCount + 1 }, (_, index) => timeAt((totalSpoken * index) / wordCount));
+  return Array.from({ length: wordCount }, (_, index) => ({
+    start: edges[index],
+    end: edges[index + 1],
+  }));
+}
+
+// Index of the word being spoken at `time`: the last word that has started.
+// During pauses this keeps the previous word selected.
+export function findWordIndexAt(timings: WordTiming[], time: number): number {
+  let low = 0;
+  let high = timings.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timings[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
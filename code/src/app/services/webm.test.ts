@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { muxOpusWebm, type OpusPacket } from "@/app/services/webm";
+
+interface ParsedElement {
+  id: number;
+  size: number;
+  sizeLength: number;
+  data: Uint8Array;
+  children: ParsedElement[];
+}
+
+const MASTER_IDS = new Set([
+  0x1a45dfa3, // EBML
+  0x18538067, // Segment
+  0x1549a966, // Info
+  0x1654ae6b, // Tracks
+  0xae, // TrackEntry
+  0xe1, // Audio
+  0x1f43b675, // Cluster
+]);
+
+// Variable-length integer; IDs keep their length marker, sizes drop it
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } {
+  const first = bytes[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8) throw new Error(`Invalid vint at ${offset}`);
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+}
+
+// Parses the elements in [start, end), failing if any of them overruns it
+function parse(bytes: Uint8Array, start = 0, end = bytes.length): ParsedElement[] {
+  const elements: ParsedElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(bytes, offset, true);
+    const size = readVint(bytes, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    const dataEnd = dataStart + size.value;
+    if (dataEnd > end) throw new Error(`Element 0x${id.value.toString(16)} overruns its parent`);
+
+    elements.push({
+      id: id.value,
+      size: size.value,
+      sizeLength: size.length,
+      data: bytes.subarray(dataStart, dataEnd),
+      children: MASTER_IDS.has(id.value) ? parse(bytes, dataStart, dataEnd) : [],
+    });
+    offset = dataEnd;
+  }
+  return elements;
+}
+
+const find = (elements: ParsedElement[], id: number): ParsedElement[] => elements.filter((element) => element.id === id);
+
+const packet = (timestampUs: number, length = 20): OpusPacket => ({
+  data: new Uint8Array(length).fill(0xfc),
+  timestampUs,
+});
+
+async function mux(packets: OpusPacket[]): Promise<ParsedElement[]> {
+  const blob = muxOpusWebm({ packets, durationUs: 10_000_000, codecPrivate: new Uint8Array(19), preSkip: 312 });
+  expect(blob.type).toBe("audio/webm");
+  return parse(new Uint8Array(await blob.arrayBuffer()));
+}
+
+const uint = (data: Uint8Array): number => data.reduce((value, byte) => value * 256 + byte, 0);
+
+describe("muxOpusWebm", () => {
+  it("writes element sizes that add up to the whole file", async () => {
+    const [header, segment, ...rest] = await mux([packet(0), packet(20_000), packet(40_000)]);
+    expect(rest).toEqual([]);
+    expect(header.id).toBe(0x1a45dfa3);
+    expect(new TextDecoder().decode(find(header.children, 0x4282)[0].data)).toBe("webm");
+    expect(segment.id).toBe(0x18538067);
+    expect(segment.children.map((child) => child.id)).toEqual([0x1549a966, 0x1654ae6b, 0x1f43b675]);
+  });
+
+  // An all-ones size means "unknown", so 127 and 16383 need the next length up
+  it("uses a one-byte size up to 126 and two bytes from 127", async () => {
+    // A SimpleBlock body is the 4-byte block header plus the packet
+    const [, segment] = await mux([packet(0, 122), packet(20_000, 123)]);
+    const [cluster] = find(segment.children, 0x1f43b675);
+    const blocks = find(cluster.children, 0xa3);
+    expect(blocks.map((block) => [block.size, block.sizeLength])).toEqual([[126, 1], [127, 2]]);
+  });
+
+  it("uses a two-byte size up to 16382 and three bytes from 16383", async () => {
+    const [, segment] = await mux([packet(0, 16_378), packet(20_000, 16_379)]);
+    const blocks = find(find(segment.children, 0x1f43b675)[0].children, 0xa3);
+    expect(blocks.map((block) => [block.size, block.sizeLength])).toEqual([[16_382, 2], [16_383, 3]]);
+  });
+
+  it("starts a new cluster every five seconds with block times relative to it", async () => {
+    const [, segment] = await mux([packet(0), packet(4_999_000), packet(5_000_000), packet(5_020_000)]);
+    const clusters = find(segment.children, 0x1f43b675);
+    expect(clusters.map((cluster) => uint(find(cluster.children, 0xe7)[0].data))).toEqual([0, 5000]);
+
+    const relativeTimes = clusters.map((cluster) =>
+      find(cluster.children, 0xa3).map((block) => new DataView(block.data.buffer, block.data.byteOffset).getInt16(1)));
+    expect(relativeTimes).toEqual([[0, 4999], [0, 20]]);
+  });
+
+  it("describes the Opus track", async () => {
+    const [, segment] = await mux([packet(0)]);
+    const [trackEntry] = find(find(segment.children, 0x1654ae6b)[0].children, 0xae);
+    expect(new TextDecoder().decode(find(trackEntry.children, 0x86)[0].data)).toBe("A_OPUS");
+    expect(uint(find(trackEntry.children, 0x56aa)[0].data)).toBe(6_500_000); // 312 samples at 48 kHz
+    expect(find(trackEntry.children, 0x63a2)[0].size).toBe(19);
+  });
+});
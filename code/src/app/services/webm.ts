@@ -0,0 +1,134 @@
+// Minimal WebM (Matroska) writer for a single Opus audio track. WebCodecs
+// hands back raw Opus packets, and the backend only accepts them inside a
+// container it knows, so the packets are wrapped here rather than pulling in a
+// muxing library.
+
+export interface OpusPacket {
+  data: Uint8Array;
+  timestampUs: number;
+}
+
+export interface OpusTrack {
+  packets: OpusPacket[];
+  durationUs: number;
+  codecPrivate: Uint8Array; // OpusHead
+  preSkip: number; // samples at 48 kHz the decoder drops from the start
+}
+
+const CLUSTER_SPAN_MS = 5000; // block timecodes are 16-bit offsets from their cluster
+
+const textEncoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Big-endian bytes of a non-negative integer, at least one byte long
+function uintBytes(value: number, minLength = 1): Uint8Array {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0 || bytes.length < minLength);
+  return Uint8Array.from(bytes);
+}
+
+// EBML variable-length size: the position of the first set bit gives the length
+function sizeBytes(size: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const bytes = uintBytes(size, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+const element = (id: number, ...children: Uint8Array[]): Uint8Array => {
+  const body = concat(children);
+  return concat([uintBytes(id), sizeBytes(body.length), body]);
+};
+
+const uintElement = (id: number, value: number) => element(id, uintBytes(value));
+const stringElement = (id: number, value: string) => element(id, textEncoder.encode(value));
+
+function floatElement(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function simpleBlock(packet: OpusPacket, relativeMs: number): Uint8Array {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  header[0] = 0x81; // track number 1
+  view.setInt16(1, relativeMs);
+  header[3] = 0x80; // keyframe; every Opus packet decodes on its own
+  return element(0xa3, header, packet.data);
+}
+
+function clusters(packets: OpusPacket[]): Uint8Array[] {
+  const out: Uint8Array[] = [];
+  let clusterStartMs = 0;
+  let blocks: Uint8Array[] = [];
+
+  const flush = () => {
+    if (blocks.length > 0) out.push(element(0x1f43b675, uintElement(0xe7, clusterStartMs), ...blocks));
+    blocks = [];
+  };
+
+  packets.forEach((packet, index) => {
+    const timeMs = Math.round(packet.timestampUs / 1000);
+    if (index === 0 || timeMs - clusterStartMs >= CLUSTER_SPAN_MS) {
+      flush();
+      clusterStartMs = timeMs;
+    }
+    blocks.push(simpleBlock(packet, timeMs - clusterStartMs));
+  });
+  flush();
+  return out;
+}
+
+export function muxOpusWebm(track: OpusTrack): Blob {
+  const header = element(
+    0x1a45dfa3, // EBML
+    uintElement(0x4286, 1), // EBMLVersion
+    uintElement(0x42f7, 1), // EBMLReadVersion
+    uintElement(0x42f2, 4), // EBMLMaxIDLength
+    uintElement(0x42f3, 8), // EBMLMaxSizeLength
+    stringElement(0x4282, "webm"), // DocType
+    uintElement(0x4287, 4), // DocTypeVersion
+    uintElement(0x4285, 2), // DocTypeReadVersion
+  );
+
+  const info = element(
+    0x1549a966, // Info
+    uintElement(0x2ad7b1, 1_000_000), // TimecodeScale: 1 ms
+    stringElement(0x4d80, "Pitch Perfect"), // MuxingApp
+    stringElement(0x5741, "Pitch Perfect"), // WritingApp
+    floatElement(0x4489, track.durationUs / 1000), // Duration in ms
+  );
+
+  const tracks = element(
+    0x1654ae6b, // Tracks
+    element(
+      0xae, // TrackEntry
+      uintElement(0xd7, 1), // TrackNumber
+      uintElement(0x73c5, 1), // TrackUID
+      uintElement(0x83, 2), // TrackType: audio
+      stringElement(0x86, "A_OPUS"), // CodecID
+      element(0x63a2, track.codecPrivate), // CodecPrivate
+      uintElement(0x56aa, Math.round((track.preSkip / 48_000) * 1e9)), // CodecDelay in ns
+      uintElement(0x56bb, 80_000_000), // SeekPreRoll: 80 ms, as the Opus mapping requires
+      element(0xe1, floatElement(0xb5, 48_000), uintElement(0x9f, 1)), // Audio: 48 kHz output, mono
+    ),
+  );
+
+  const segment = element(0x18538067, info, tracks, ...clusters(track.packets));
+  return new Blob([concat([header, segment]) as Uint8Array<ArrayBuffer>], { type: "audio/webm" });
+}